@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { useEventSequencer } from '../useEventSequencer'
+import type { Event as GameEvent } from '@/types/events'
+
+function event(seq: number | undefined, type = 'chat_message'): GameEvent<unknown> {
+  return { type, seq, data: {} } as GameEvent<unknown>
+}
+
+describe('useEventSequencer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  function setup() {
+    const delivered: (number | undefined)[] = []
+    const requestResync = vi.fn()
+    const sequencer = useEventSequencer({
+      isSnapshot: e => e.type === 'game_data',
+      requestResync,
+      deliver: e => delivered.push(e.seq),
+      resyncTimeout: 1000,
+    })
+    return { sequencer, delivered, requestResync }
+  }
+
+  it("livre dans l'ordre et écarte les doublons", () => {
+    const { sequencer, delivered } = setup()
+
+    ;[1, 2, 2, 3, 1].forEach(seq => sequencer.process(event(seq)))
+    expect(delivered).toEqual([1, 2, 3])
+    expect(sequencer.lastSeq.value).toBe(3)
+  })
+
+  it('livre sans attendre les événements sans séquence', () => {
+    const { sequencer, delivered } = setup()
+
+    sequencer.process(event(1))
+    sequencer.process(event(undefined, 'ack'))
+    expect(delivered).toEqual([1, undefined])
+  })
+
+  it('retient les événements après un trou et demande une resynchronisation', () => {
+    const { sequencer, delivered, requestResync } = setup()
+
+    sequencer.process(event(1))
+    sequencer.process(event(3))
+    sequencer.process(event(4))
+    expect(delivered).toEqual([1])
+    expect(requestResync).toHaveBeenCalledWith(1)
+    expect(sequencer.isResyncing.value).toBe(true)
+
+    sequencer.process(event(2))
+    expect(delivered).toEqual([1, 2, 3, 4])
+    expect(sequencer.isResyncing.value).toBe(false)
+  })
+
+  it("livre ce qui a été reçu si le trou n'est jamais comblé", () => {
+    const { sequencer, delivered } = setup()
+
+    sequencer.process(event(1))
+    sequencer.process(event(4))
+    sequencer.process(event(3))
+    vi.advanceTimersByTime(1000)
+    expect(delivered).toEqual([1, 3, 4])
+    expect(sequencer.isResyncing.value).toBe(false)
+  })
+
+  it("repart de la séquence d'un snapshot", () => {
+    const { sequencer, delivered } = setup()
+
+    sequencer.process(event(1))
+    sequencer.process(event(5))
+    sequencer.process(event(4, 'game_data'))
+    expect(delivered).toEqual([1, 4, 5])
+    expect(sequencer.lastSeq.value).toBe(5)
+  })
+
+  it('redemande les événements manqués à la reprise', () => {
+    const { sequencer, requestResync } = setup()
+
+    sequencer.process(event(7))
+    sequencer.resume()
+    expect(requestResync).toHaveBeenCalledWith(7)
+  })
+
+  it('oublie tout au reset', () => {
+    const { sequencer, delivered } = setup()
+
+    sequencer.process(event(10))
+    sequencer.reset()
+    sequencer.process(event(1))
+    expect(delivered).toEqual([10, 1])
+    expect(sequencer.isResyncing.value).toBe(false)
+  })
+})
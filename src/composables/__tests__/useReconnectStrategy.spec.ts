@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { computeBackoffDelay, useReconnectStrategy } from '../useReconnectStrategy'
+
+describe('computeBackoffDelay', () => {
+  it('double le délai à chaque tentative sans jitter', () => {
+    const options = { baseDelay: 1000, factor: 2, jitter: 0 }
+    expect([0, 1, 2, 3].map(attempt => computeBackoffDelay(attempt, options))).toEqual([1000, 2000, 4000, 8000])
+  })
+
+  it('plafonne le délai à maxDelay', () => {
+    expect(computeBackoffDelay(10, { baseDelay: 1000, maxDelay: 30000, jitter: 0 })).toBe(30000)
+  })
+
+  it('retire au plus la part de jitter du délai', () => {
+    const random = vi.spyOn(Math, 'random')
+    random.mockReturnValue(1)
+    expect(computeBackoffDelay(2, { baseDelay: 1000, jitter: 0.5 })).toBe(2000)
+    random.mockReturnValue(0)
+    expect(computeBackoffDelay(2, { baseDelay: 1000, jitter: 0.5 })).toBe(4000)
+    random.mockRestore()
+  })
+})
+
+describe('useReconnectStrategy', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  function setup(maxAttempts = Infinity) {
+    const onRetry = vi.fn()
+    const strategy = useReconnectStrategy({ baseDelay: 1000, factor: 2, jitter: 0, maxAttempts, onRetry })
+    return { strategy, onRetry }
+  }
+
+  it('relance après le délai de backoff et compte les tentatives', () => {
+    const { strategy, onRetry } = setup()
+
+    strategy.schedule()
+    expect(strategy.nextRetryAt.value).toBe(Date.now() + 1000)
+    vi.advanceTimersByTime(999)
+    expect(onRetry).not.toHaveBeenCalled()
+    vi.advanceTimersByTime(1)
+    expect(onRetry).toHaveBeenCalledTimes(1)
+    expect(strategy.attempt.value).toBe(1)
+
+    // La deuxième tentative attend deux fois plus longtemps
+    strategy.schedule()
+    vi.advanceTimersByTime(1999)
+    expect(onRetry).toHaveBeenCalledTimes(1)
+    vi.advanceTimersByTime(1)
+    expect(onRetry).toHaveBeenCalledTimes(2)
+
+    strategy.dispose()
+  })
+
+  it("ne planifie plus rien une fois maxAttempts atteint", () => {
+    const { strategy, onRetry } = setup(2)
+
+    strategy.schedule()
+    vi.runAllTimers()
+    strategy.schedule()
+    vi.runAllTimers()
+    expect(strategy.isExhausted.value).toBe(true)
+
+    strategy.schedule()
+    vi.runAllTimers()
+    expect(onRetry).toHaveBeenCalledTimes(2)
+    expect(strategy.isPending.value).toBe(false)
+
+    strategy.dispose()
+  })
+
+  it('suspend les tentatives hors ligne et relance dès le retour du réseau', () => {
+    const { strategy, onRetry } = setup()
+
+    window.dispatchEvent(new Event('offline'))
+    strategy.schedule()
+    vi.advanceTimersByTime(60000)
+    expect(onRetry).not.toHaveBeenCalled()
+    expect(strategy.isPending.value).toBe(true)
+
+    window.dispatchEvent(new Event('online'))
+    expect(onRetry).toHaveBeenCalledTimes(1)
+
+    strategy.dispose()
+  })
+
+  it('remet le compteur à zéro après une connexion réussie', () => {
+    const { strategy } = setup()
+
+    strategy.schedule()
+    vi.runAllTimers()
+    strategy.reset()
+    expect(strategy.attempt.value).toBe(0)
+    strategy.schedule()
+    expect(strategy.nextRetryAt.value).toBe(Date.now() + 1000)
+
+    strategy.dispose()
+  })
+
+  it("n'écoute plus le réseau une fois libérée", () => {
+    const { strategy, onRetry } = setup()
+
+    window.dispatchEvent(new Event('offline'))
+    strategy.schedule()
+    strategy.dispose()
+    window.dispatchEvent(new Event('online'))
+    expect(onRetry).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { nextTick, reactive } from 'vue'
+import { useRequestTracker } from '../useRequestTracker'
+import type { OutboundMessage } from '../useWebSocket'
+import { CommandError } from '@/utils/commandError'
+import { EventTypeAck, EventTypeError } from '@/types/events'
+
+function outbound(status: OutboundMessage['status'] = 'sent'): OutboundMessage {
+  return reactive<OutboundMessage>({
+    id: crypto.randomUUID(),
+    content: '',
+    status,
+    createdAt: Date.now(),
+    expiresAt: null,
+  }) as OutboundMessage
+}
+
+function ack(data: { requestId?: string; action?: string; success?: boolean; message?: string }) {
+  return { type: EventTypeAck, data: { success: true, ...data } }
+}
+
+describe('useRequestTracker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('résout la commande à son ack', async () => {
+    const tracker = useRequestTracker()
+    const request = tracker.track('r1', outbound(), 'start_game')
+
+    tracker.handleMessage(ack({ requestId: 'r1', action: 'start_game' }))
+    await expect(request).resolves.toMatchObject({ requestId: 'r1', success: true })
+  })
+
+  it('rejette la commande sur une erreur du serveur', async () => {
+    const tracker = useRequestTracker()
+    const request = tracker.track('r1', outbound(), 'vote')
+
+    tracker.handleMessage({ type: EventTypeError, data: { requestId: 'r1', code: 'WRONG_PHASE', message: 'Trop tard' } })
+    const error = await request.catch(e => e)
+    expect(error).toBeInstanceOf(CommandError)
+    expect(error).toMatchObject({ reason: 'rejected', code: 'WRONG_PHASE' })
+  })
+
+  it("rejette la commande sans ack après le délai, compté depuis l'envoi", async () => {
+    const tracker = useRequestTracker({ timeout: 1000 })
+    const delivery = outbound('queued')
+    const request = tracker.track('r1', delivery, 'vote')
+
+    // Toujours en file : le délai ne court pas
+    vi.advanceTimersByTime(5000)
+    delivery.status = 'sent'
+    await nextTick()
+    vi.advanceTimersByTime(1000)
+
+    await expect(request).rejects.toMatchObject({ reason: 'timeout' })
+  })
+
+  it("rejette la commande qui n'a jamais quitté le client", async () => {
+    const tracker = useRequestTracker()
+    const delivery = outbound('queued')
+    const request = tracker.track('r1', delivery, 'vote')
+
+    delivery.status = 'expired'
+    await nextTick()
+    await expect(request).rejects.toMatchObject({ reason: 'undelivered' })
+  })
+
+  it("règle la plus ancienne commande de l'action quand le serveur ne renvoie pas l'identifiant", async () => {
+    const tracker = useRequestTracker()
+    const first = tracker.track('r1', outbound(), 'vote')
+    const second = tracker.track('r2', outbound(), 'vote')
+    const settled = vi.fn()
+    second.then(settled, settled)
+
+    tracker.handleMessage(ack({ action: 'vote' }))
+    await expect(first).resolves.toMatchObject({ action: 'vote' })
+    expect(settled).not.toHaveBeenCalled()
+  })
+
+  it('ignore un identifiant inconnu', async () => {
+    const tracker = useRequestTracker()
+    const request = tracker.track('r1', outbound(), 'vote')
+    const settled = vi.fn()
+    request.then(settled, settled)
+
+    tracker.handleMessage(ack({ requestId: 'other-tab', action: 'vote' }))
+    await Promise.resolve()
+    expect(settled).not.toHaveBeenCalled()
+  })
+
+  it('rejette toutes les commandes en cours à la fermeture', async () => {
+    const tracker = useRequestTracker()
+    const requests = [tracker.track('r1', outbound(), 'a'), tracker.track('r2', outbound(), 'b')]
+
+    tracker.rejectAll('Connection closed')
+    for (const request of requests) {
+      await expect(request).rejects.toMatchObject({ reason: 'undelivered' })
+    }
+  })
+})
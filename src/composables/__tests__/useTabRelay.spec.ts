@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { reactive } from 'vue'
+import { useTabRelay } from '../useTabRelay'
+import type { OutboundMessage } from '../useWebSocket'
+
+/**
+ * Web Locks minimal : un détenteur par nom, les suivants attendent leur tour
+ */
+function createLockManager() {
+  const queues = new Map<string, (() => void)[]>()
+  const held = new Set<string>()
+
+  function next(name: string) {
+    const waiter = queues.get(name)?.shift()
+    if (waiter) waiter()
+    else held.delete(name)
+  }
+
+  return {
+    request(name: string, options: { signal?: AbortSignal }, callback: () => Promise<void> | void): Promise<void> {
+      return new Promise((resolve, reject) => {
+        const run = () => {
+          held.add(name)
+          Promise.resolve(callback()).finally(() => next(name)).then(resolve, reject)
+        }
+        if (!held.has(name)) return run()
+
+        const queue = queues.get(name) ?? []
+        queue.push(run)
+        queues.set(name, queue)
+        options.signal?.addEventListener('abort', () => {
+          queues.set(name, (queues.get(name) ?? []).filter(waiter => waiter !== run))
+          reject(new DOMException('Aborted', 'AbortError'))
+        })
+      })
+    },
+  }
+}
+
+// Laisse passer les messages du BroadcastChannel et les verrous
+const flush = () => new Promise(resolve => setTimeout(resolve, 20))
+
+function sent(): OutboundMessage {
+  return reactive<OutboundMessage>({
+    id: crypto.randomUUID(),
+    content: '',
+    status: 'sent',
+    createdAt: Date.now(),
+    expiresAt: null,
+  }) as OutboundMessage
+}
+
+describe('useTabRelay', () => {
+  let key: string
+
+  beforeEach(() => {
+    Object.defineProperty(navigator, 'locks', { value: createLockManager(), configurable: true })
+    key = crypto.randomUUID()
+  })
+
+  afterEach(() => {
+    Reflect.deleteProperty(navigator, 'locks')
+  })
+
+  function tab() {
+    const callbacks = {
+      onLeader: vi.fn(),
+      onCommand: vi.fn(() => sent()),
+      onRetry: vi.fn(),
+      onMessage: vi.fn(),
+    }
+    return { relay: useTabRelay({ key, ...callbacks }), ...callbacks }
+  }
+
+  it('élit un seul leader parmi les onglets de la même partie', async () => {
+    const first = tab()
+    await flush()
+    const second = tab()
+    await flush()
+
+    expect(first.relay.isLeader.value).toBe(true)
+    expect(first.onLeader).toHaveBeenCalledTimes(1)
+    expect(second.relay.isLeader.value).toBe(false)
+    expect(second.onLeader).not.toHaveBeenCalled()
+
+    first.relay.dispose()
+    second.relay.dispose()
+  })
+
+  it("passe la main à un suiveur quand le leader s'en va", async () => {
+    const first = tab()
+    await flush()
+    const second = tab()
+    await flush()
+
+    first.relay.dispose()
+    await flush()
+    expect(second.relay.isLeader.value).toBe(true)
+    expect(second.onLeader).toHaveBeenCalledTimes(1)
+
+    second.relay.dispose()
+  })
+
+  it("transmet les commandes d'un suiveur au leader et lui renvoie leur livraison", async () => {
+    const leader = tab()
+    await flush()
+    const follower = tab()
+    await flush()
+
+    const message = follower.relay.forward({ type: 'vote' })
+    expect(follower.relay.outbox.value).toHaveLength(1)
+    await flush()
+
+    expect(leader.onCommand).toHaveBeenCalledWith({ type: 'vote' }, { expiresAt: undefined })
+    expect(message.status).toBe('sent')
+    expect(follower.relay.outbox.value).toHaveLength(0)
+
+    leader.relay.dispose()
+    follower.relay.dispose()
+  })
+
+  it('relaie aux suiveurs les messages reçus par le leader, historique compris', async () => {
+    const leader = tab()
+    await flush()
+    leader.relay.publishState({
+      status: 'open',
+      attempt: 0,
+      nextRetryAt: null,
+      reconnectExhausted: false,
+      latency: null,
+      connectionQuality: 'unknown',
+      codec: 'json',
+    })
+    leader.relay.publishMessage({ type: 'game_data' })
+
+    const follower = tab()
+    await flush()
+    leader.relay.publishMessage({ type: 'chat_message' })
+    await flush()
+
+    expect(follower.onMessage.mock.calls.map(([message]) => message.type)).toEqual(['game_data', 'chat_message'])
+    expect(follower.relay.remoteState.value?.status).toBe('open')
+
+    leader.relay.dispose()
+    follower.relay.dispose()
+  })
+})
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { useWebSocket } from '../useWebSocket'
+
+/**
+ * Socket pilotée par le test : ouverture et fermeture à la demande
+ */
+class FakeSocket {
+  readyState: number = WebSocket.CONNECTING
+  protocol = ''
+  binaryType = 'blob'
+  sent: string[] = []
+  onopen: (() => void) | null = null
+  onmessage: ((event: MessageEvent) => void) | null = null
+  onerror: ((event: Event) => void) | null = null
+  onclose: ((event: CloseEvent) => void) | null = null
+
+  send(data: string) {
+    this.sent.push(data)
+  }
+
+  open() {
+    this.readyState = WebSocket.OPEN
+    this.onopen?.()
+  }
+
+  close(code = 1000) {
+    this.readyState = WebSocket.CLOSED
+    this.onclose?.(new CloseEvent('close', { code }))
+  }
+}
+
+describe("useWebSocket : file d'envoi", () => {
+  let sockets: FakeSocket[]
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    sockets = []
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  function setup(queueTtl = 5000) {
+    const ws = useWebSocket('ws://test', {
+      autoReconnect: false,
+      queueTtl,
+      createSocket: () => {
+        const socket = new FakeSocket()
+        sockets.push(socket)
+        return socket as unknown as WebSocket
+      },
+    })
+    return ws
+  }
+
+  it("met en file hors connexion puis envoie dans l'ordre à l'ouverture", async () => {
+    const ws = setup()
+
+    const first = ws.send({ type: 'a' })
+    const second = ws.send({ type: 'b' })
+    expect(first.status).toBe('queued')
+    expect(ws.outbox.value).toHaveLength(2)
+
+    const connecting = ws.connect()
+    sockets[0]!.open()
+    await connecting
+
+    expect(sockets[0]!.sent.map(frame => JSON.parse(frame).type)).toEqual(['a', 'b'])
+    expect(first.status).toBe('sent')
+    expect(second.status).toBe('sent')
+    expect(ws.outbox.value).toHaveLength(0)
+
+    ws.dispose()
+  })
+
+  it('fait expirer un message resté en file au-delà de son TTL', () => {
+    const ws = setup(5000)
+
+    const message = ws.send({ type: 'late' })
+    vi.advanceTimersByTime(4999)
+    expect(message.status).toBe('queued')
+    vi.advanceTimersByTime(1)
+    expect(message.status).toBe('expired')
+    expect(ws.outbox.value).toHaveLength(0)
+
+    ws.dispose()
+  })
+
+  it('préfère une échéance explicite au TTL par défaut', () => {
+    const ws = setup(60000)
+
+    const message = ws.send({ type: 'vote' }, { expiresAt: Date.now() + 1000 })
+    vi.advanceTimersByTime(1000)
+    expect(message.status).toBe('expired')
+
+    ws.dispose()
+  })
+
+  it("n'envoie pas un message expiré à la reconnexion", async () => {
+    const ws = setup(5000)
+
+    const stale = ws.send({ type: 'stale' })
+    vi.advanceTimersByTime(6000)
+    const fresh = ws.send({ type: 'fresh' })
+
+    const connecting = ws.connect()
+    sockets[0]!.open()
+    await connecting
+
+    expect(stale.status).toBe('expired')
+    expect(fresh.status).toBe('sent')
+    expect(sockets[0]!.sent.map(frame => JSON.parse(frame).type)).toEqual(['fresh'])
+
+    ws.dispose()
+  })
+
+  it('fait échouer la file quand la connexion est fermée volontairement', () => {
+    const ws = setup()
+
+    const message = ws.send({ type: 'a' })
+    ws.close()
+    expect(message.status).toBe('failed')
+    expect(ws.status.value).toBe('closed')
+  })
+})
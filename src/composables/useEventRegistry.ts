@@ -0,0 +1,107 @@
+/**
+ * useEventRegistry Composable
+ *
+ * Single, typed dispatcher for incoming game events. Handlers subscribe to a
+ * (channel, type) pair and receive the payload type registered for that pair.
+ * The store, GameView and side features (chat announcements...) all register here.
+ */
+
+import { onUnmounted, getCurrentInstance } from 'vue'
+import type {
+  Event as GameEvent,
+  EventType,
+  IncomingChannel,
+  IncomingEventMap,
+  IncomingEventType,
+  IncomingPayload,
+  OutboundEventType,
+} from '@/types/events'
+
+// Compile-time check: every EventType is either received (it has a schema) or outbound-only.
+// A new EventType without a schema fails here with its name in the error.
+type CoveredEventType = { [C in IncomingChannel]: keyof IncomingEventMap[C] }[IncomingChannel] | OutboundEventType
+type UncoveredEventType = Exclude<EventType, CoveredEventType>
+const exhaustiveCoverage: [UncoveredEventType] extends [never] ? true : UncoveredEventType = true
+void exhaustiveCoverage
+
+export type EventHandler<C extends IncomingChannel, T extends IncomingEventType<C>> = (
+  data: IncomingPayload<C, T>,
+  event: GameEvent<IncomingPayload<C, T>>
+) => void
+
+export interface EventRegistry {
+  /** Subscribe to one event; returns the unsubscribe function */
+  on: <C extends IncomingChannel, T extends IncomingEventType<C>>(
+    channel: C,
+    type: T,
+    handler: EventHandler<C, T>
+  ) => () => void
+  /** Route a validated event to its handlers, in registration order */
+  dispatch: (event: GameEvent<unknown>) => void
+  /** Drop every subscription */
+  clear: () => void
+}
+
+type AnyHandler = (data: unknown, event: GameEvent<unknown>) => void
+
+/**
+ * Create an event registry (cleared on unmount when created in a component setup)
+ */
+export function useEventRegistry(): EventRegistry {
+  const handlers = new Map<string, AnyHandler[]>()
+
+  const keyOf = (channel: string, type: string) => `${channel}/${type}`
+
+  function on<C extends IncomingChannel, T extends IncomingEventType<C>>(
+    channel: C,
+    type: T,
+    handler: EventHandler<C, T>
+  ): () => void {
+    const key = keyOf(channel, type)
+    const entry = handler as AnyHandler
+    handlers.set(key, [...(handlers.get(key) ?? []), entry])
+
+    return () => {
+      const remaining = (handlers.get(key) ?? []).filter(h => h !== entry)
+      if (remaining.length > 0) {
+        handlers.set(key, remaining)
+      } else {
+        handlers.delete(key)
+      }
+    }
+  }
+
+  function dispatch(event: GameEvent<unknown>): void {
+    const subscribers = handlers.get(keyOf(event.channel, event.type))
+    if (!subscribers) {
+      // The logger middleware already printed the (redacted) event: only flag the missing handler
+      if (import.meta.env.DEV) {
+        console.warn(`[EventRegistry] Event non géré: ${event.channel}/${event.type}`)
+      }
+      return
+    }
+
+    // One failing handler must not keep the others from running
+    for (const handler of subscribers) {
+      try {
+        handler(event.data, event)
+      } catch (e) {
+        console.error(`[EventRegistry] Erreur du handler ${event.channel}/${event.type}:`, e)
+      }
+    }
+  }
+
+  function clear(): void {
+    handlers.clear()
+  }
+
+  if (getCurrentInstance()) {
+    onUnmounted(clear)
+  }
+
+  return {
+    on,
+    dispatch,
+    clear,
+  }
+}
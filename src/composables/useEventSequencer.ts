@@ -0,0 +1,157 @@
+/**
+ * Composable useEventSequencer
+ *
+ * Ordonne les événements serveur selon leur numéro de séquence (par partie).
+ * Les doublons sont écartés, les événements reçus après un trou sont retenus
+ * le temps d'une resynchronisation, et un snapshot avance la référence jusqu'à
+ * l'état courant annoncé par le serveur.
+ */
+
+import { ref, type Ref } from 'vue'
+import type { Event as GameEvent } from '@/types/events'
+
+export interface UseEventSequencerOptions {
+    /** Les snapshots remplacent l'état jusqu'à leur numéro de séquence */
+    isSnapshot: (event: GameEvent<unknown>) => boolean
+    /** Demande au serveur tout ce qui suit lastSeq */
+    requestResync: (lastSeq: number) => void
+    /** Transmet un événement, dans l'ordre */
+    deliver: (event: GameEvent<unknown>) => void
+    /** Délai avant d'abandonner un trou et de livrer ce qui a été reçu (ms) */
+    resyncTimeout?: number
+}
+
+export interface UseEventSequencerReturn {
+    /** Dernier numéro de séquence livré, null avant le premier événement séquencé */
+    lastSeq: Ref<number | null>
+    /** Vrai tant que le serveur n'a pas comblé un trou */
+    isResyncing: Ref<boolean>
+    process: (event: GameEvent<unknown>) => void
+    /** À appeler à chaque reconnexion : redemande ce qui a été manqué */
+    resume: () => void
+    /** Oublie tout (nouvelle partie) */
+    reset: () => void
+}
+
+/**
+ * Crée un séquenceur d'événements
+ */
+export function useEventSequencer(options: UseEventSequencerOptions): UseEventSequencerReturn {
+    const { isSnapshot, requestResync, deliver, resyncTimeout = 5000 } = options
+
+    const lastSeq = ref<number | null>(null)
+    const isResyncing = ref(false)
+
+    // Événements reçus après un trou, par numéro de séquence
+    const pending = new Map<number, GameEvent<unknown>>()
+    let resyncTimer: ReturnType<typeof setTimeout> | null = null
+
+    function startResync(): void {
+        if (lastSeq.value === null) return
+        isResyncing.value = true
+        requestResync(lastSeq.value)
+
+        if (resyncTimer) clearTimeout(resyncTimer)
+        resyncTimer = setTimeout(giveUp, resyncTimeout)
+    }
+
+    function endResync(): void {
+        if (resyncTimer) {
+            clearTimeout(resyncTimer)
+            resyncTimer = null
+        }
+        isResyncing.value = false
+    }
+
+    /**
+     * Livre les événements retenus qui suivent désormais la référence
+     */
+    function drain(): void {
+        while (lastSeq.value !== null && pending.has(lastSeq.value + 1)) {
+            const next = lastSeq.value + 1
+            const event = pending.get(next)!
+            pending.delete(next)
+            lastSeq.value = next
+            deliver(event)
+        }
+        if (pending.size === 0 && isResyncing.value) endResync()
+    }
+
+    /**
+     * Le serveur n'a jamais comblé le trou : on livre ce qu'on a plutôt que de bloquer la partie
+     */
+    function giveUp(): void {
+        resyncTimer = null
+        if (pending.size > 0) {
+            console.warn(`[EventSequencer] Resync sans réponse après #${lastSeq.value}, ${pending.size} événement(s) livrés tels quels`)
+        }
+        const ordered = [...pending.entries()].sort(([a], [b]) => a - b)
+        pending.clear()
+        for (const [seq, event] of ordered) {
+            lastSeq.value = seq
+            deliver(event)
+        }
+        isResyncing.value = false
+    }
+
+    function process(event: GameEvent<unknown>): void {
+        const seq = event.seq
+
+        // Les événements sans séquence (acks, erreurs, pongs) ne font pas partie du flux de jeu
+        if (seq === undefined) {
+            deliver(event)
+            return
+        }
+
+        if (isSnapshot(event)) {
+            // État de référence : tout ce qui précède seq y est inclus
+            for (const held of [...pending.keys()]) {
+                if (held <= seq) pending.delete(held)
+            }
+            lastSeq.value = seq
+            deliver(event)
+            drain()
+            if (pending.size > 0 && !isResyncing.value) startResync()
+            return
+        }
+
+        if (lastSeq.value === null) {
+            lastSeq.value = seq
+            deliver(event)
+            return
+        }
+
+        if (seq <= lastSeq.value || pending.has(seq)) return
+
+        if (seq === lastSeq.value + 1) {
+            lastSeq.value = seq
+            deliver(event)
+            drain()
+            return
+        }
+
+        pending.set(seq, event)
+        if (!isResyncing.value) {
+            console.warn(`[EventSequencer] Trou détecté : attendu #${lastSeq.value + 1}, reçu #${seq}`)
+            startResync()
+        }
+    }
+
+    function resume(): void {
+        startResync()
+    }
+
+    function reset(): void {
+        endResync()
+        pending.clear()
+        lastSeq.value = null
+    }
+
+    return {
+        lastSeq,
+        isResyncing,
+        process,
+        resume,
+        reset,
+    }
+}
@@ -0,0 +1,157 @@
+/**
+ * useGameAnnouncements Composable
+ *
+ * Turns game events into system messages for the village chat
+ * (deaths and blocked attacks at dawn, nightfall, lovers, the sheriff, winners, host changes, players joining or leaving).
+ */
+
+import { useGameStore } from '@/stores/gameStore'
+import type { EventRegistry } from './useEventRegistry'
+import type { PlayerID } from '@/types/player'
+import type { RoleType } from '@/types/roles'
+import type { Clan, DeathCause, DeathEventData } from '@/types/events'
+import {
+  EventChannelGameEvent,
+  EventChannelConnexion,
+  EventTypeDay,
+  EventTypeNight,
+  EventTypeDeath,
+  EventTypeWin,
+  EventTypeRoleReveal,
+  EventTypeLoversReveal,
+  EventTypeSheriff,
+  EventTypeGameHostChange,
+  EventTypeConnection,
+  EventTypeDisconnection,
+  EventTypeReconnection,
+  EventTypeInactive,
+  EventTypeSnapshot,
+} from '@/types/events'
+
+export interface UseGameAnnouncementsOptions {
+  /** Push a system message to the village chat */
+  announce: (content: string) => void
+  /** Display name of a role */
+  roleName: (role: RoleType) => string
+}
+
+const CLAN_NAMES: Record<Clan, string> = {
+  villager: 'Les villageois ont gagné',
+  werewolf: 'Les loups-garous ont gagné',
+  lovers: 'Les amoureux ont gagné',
+  none: 'Personne n\'a gagné',
+}
+
+/** How a death came about, when it is not the usual night kill or vote */
+const DEATH_CAUSES: Record<DeathCause, string> = {
+  grief: 'mort(e) de chagrin',
+  hunter_shot: 'abattu(e) par le Chasseur',
+}
+
+/** Announced at once when such a death happens during the day */
+const DAY_DEATH_LINES: Record<DeathCause, string> = {
+  grief: 'a suivi son amour dans la mort',
+  hunter_shot: 'a été abattu(e) par le Chasseur',
+}
+
+/**
+ * Register the chat announcements; must run after the store handlers are registered,
+ * since several announcements read the state those handlers just updated.
+ * Returns the unsubscribe function.
+ */
+export function useGameAnnouncements(events: EventRegistry, options: UseGameAnnouncementsOptions): () => void {
+  const { announce, roleName } = options
+  const gameStore = useGameStore()
+
+  const playerName = (playerId: PlayerID, fallback: string) => {
+    return gameStore.players.find(p => p.id === playerId)?.username || fallback
+  }
+
+  const describeDeath = (death: DeathEventData) => {
+    const cause = death.cause ? `, ${DEATH_CAUSES[death.cause]}` : ''
+    return `${playerName(death.victim, 'Inconnu')} (${roleName(death.role)}${cause})`
+  }
+
+  const subscriptions = [
+    // Deaths and a blocked attack were collected from the events sent just before the day starts
+    events.on(EventChannelGameEvent, EventTypeDay, () => {
+      const deaths = gameStore.recentDeaths
+      if (deaths.length > 0) {
+        const deathMessages = deaths.map(describeDeath)
+        announce(`Cette nuit: ${deathMessages.join(', ')}`)
+        if (gameStore.attackBlocked) announce('L\'attaque des loups a pourtant été repoussée.')
+      } else if (gameStore.attackBlocked) {
+        announce('Les loups ont attaqué, mais leur victime était protégée : personne n\'est mort cette nuit !')
+      } else {
+        announce('Personne n\'est mort cette nuit !')
+      }
+      // Clear deaths after announcement
+      gameStore.clearRecentDeaths()
+    }),
+
+    events.on(EventChannelGameEvent, EventTypeNight, () => {
+      announce('La nuit tombe sur le village...')
+    }),
+
+    // Night deaths wait for the dawn; a lover or a hunter's target dying by day is told at once
+    events.on(EventChannelGameEvent, EventTypeDeath, (data) => {
+      if (data.cause && gameStore.currentPhase !== 'night') {
+        announce(`${playerName(data.victim, 'Inconnu')} (${roleName(data.role)}) ${DAY_DEATH_LINES[data.cause]}.`)
+      }
+    }),
+
+    events.on(EventChannelGameEvent, EventTypeWin, (data) => {
+      announce(`La partie est terminée ! ${CLAN_NAMES[data.winningClan]} !`)
+    }),
+
+    events.on(EventChannelGameEvent, EventTypeRoleReveal, (data) => {
+      announce(`Votre rôle est : ${data.role}`)
+    }),
+
+    events.on(EventChannelGameEvent, EventTypeLoversReveal, (data) => {
+      const partner = gameStore.myPartner
+      if (partner) {
+        announce(`Cupidon vous a lié(e) à ${playerName(partner, 'un joueur')} : vous vivrez et mourrez ensemble.`)
+      } else {
+        const [first, second] = data.lovers
+        announce(`${playerName(first, 'Un joueur')} et ${playerName(second, 'un joueur')} sont désormais amoureux.`)
+      }
+    }),
+
+    events.on(EventChannelGameEvent, EventTypeSheriff, (data) => {
+      if (!data.sheriffId) {
+        announce('Le Shérif est mort sans successeur : le village n\'a plus de Shérif.')
+      } else if (data.reason === 'election') {
+        announce(`${playerName(data.sheriffId, 'Un joueur')} est élu(e) Shérif : sa voix compte double.`)
+      } else {
+        announce(`${playerName(data.sheriffId, 'Un joueur')} reçoit l'étoile et devient Shérif.`)
+      }
+    }),
+
+    events.on(EventChannelConnexion, EventTypeGameHostChange, (data) => {
+      announce(`${playerName(data.host, 'Un joueur')} est maintenant l'hôte.`)
+    }),
+
+    events.on(EventChannelConnexion, EventTypeConnection, (data) => {
+      announce(`${playerName(data.player, 'Un joueur')} s'est connecté.`)
+    }),
+
+    events.on(EventChannelConnexion, EventTypeDisconnection, (data) => {
+      announce(`${playerName(data.player, 'Un joueur')} s'est déconnecté.`)
+    }),
+
+    events.on(EventChannelConnexion, EventTypeReconnection, (data) => {
+      announce(`${playerName(data.player, 'Un joueur')} s'est reconnecté.`)
+    }),
+
+    events.on(EventChannelConnexion, EventTypeInactive, (data) => {
+      announce(`${playerName(data.player, 'Un joueur')} est maintenant inactif.`)
+    }),
+
+    events.on(EventChannelConnexion, EventTypeSnapshot, () => {
+      announce('État de la partie resynchronisé.')
+    }),
+  ]
+
+  return () => subscriptions.forEach(unsubscribe => unsubscribe())
+}
@@ -6,7 +6,7 @@
  */
 
 import { ref, type Ref } from 'vue'
-import type { RoleType, GameSettingsEventData, GameDataEventData, Event } from '@/types'
+import type { RoleType, RoleCounts, GameSettingsEventData, GameDataEventData, Event } from '@/types'
 import { EventChannelSettings, EventTypeGameSettings } from '@/types/events'
 
 const SETTINGS_DEBOUNCE_DELAY = 300 // ms
@@ -18,8 +18,8 @@ export interface UseGameSettingsOptions {
 }
 
 export interface UseGameSettingsReturn {
-  pendingRoles: Ref<Record<RoleType, number> | null>
-  lastConfirmedRoles: Ref<Record<RoleType, number> | null>
+  pendingRoles: Ref<RoleCounts | null>
+  lastConfirmedRoles: Ref<RoleCounts | null>
   settingsError: Ref<string | null>
   updateRoleCount: (roleType: RoleType, delta: number, currentSettings: GameDataEventData) => void
   handleGameData: (data: GameDataEventData) => void
@@ -35,8 +35,8 @@ export function useGameSettings(options: UseGameSettingsOptions): UseGameSetting
   const { onSend, onError, onUpdateGameData } = options
 
   // State
-  const pendingRoles = ref<Record<RoleType, number> | null>(null)
-  const lastConfirmedRoles = ref<Record<RoleType, number> | null>(null)
+  const pendingRoles = ref<RoleCounts | null>(null)
+  const lastConfirmedRoles = ref<RoleCounts | null>(null)
   const settingsError = ref<string | null>(null)
 
   // Timers (not reactive)
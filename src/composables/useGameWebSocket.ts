@@ -5,17 +5,41 @@
  * Wraps the generic useWebSocket composable with game-specific send methods.
  */
 
-import { ref, shallowRef, type Ref } from 'vue'
-import { useWebSocket, type UseWebSocketReturn, type WebSocketMessage } from './useWebSocket'
+import { ref, reactive, computed, watch, type Ref } from 'vue'
+import {
+  useWebSocket,
+  DEFAULT_MAX_RECONNECT_ATTEMPTS,
+  type UseWebSocketReturn,
+  type WebSocketMessage,
+  type OutboundMessage,
+  type SendOptions,
+} from './useWebSocket'
+import { useRequestTracker, type CommandRequest } from './useRequestTracker'
+import { useTabRelay, type RelayedState } from './useTabRelay'
+import { useEventSequencer } from './useEventSequencer'
+import { jsonCodec, msgpackCodec, type WireCodec, type WireFrame } from '@/utils/codecs'
+import { validateIncomingEvent, formatDiagnostic, type EventDiagnostic } from '@/schemas'
+import { runMiddleware, type EventMiddleware } from '@/middleware'
 import type {
   Event as GameEvent,
+  EventChannel,
+  EventType,
   PlayerID,
+  RoleCounts,
+  ChatChannel,
+  ChatMessageEvent,
+  GameSettingsEventData,
+  AuthEventData,
+  ResyncEventData,
+  PingEventData,
+  PongEventData,
   WitchActionData,
 } from '@/types'
 
 // Import action types
 import type {
   ActionResponse,
+  ActionResponseEventData,
   ActionID,
 } from '@/types/actions'
 
@@ -23,6 +47,15 @@ import type {
 import {
   EventChannelGameEvent,
   EventChannelAction,
+  EventChannelSettings,
+  EventChannelConnexion,
+  EventTypeAuth,
+  EventTypeResync,
+  EventTypeSnapshot,
+  EventTypePing,
+  EventTypePong,
+  EventTypeChatMessage,
+  EventTypeGameSettings,
   EventTypeStartGame,
   EventTypeVillageVote,
   EventTypeSeerAction,
@@ -33,137 +66,349 @@ import {
 
 export interface UseGameWebSocketOptions {
   gameId: string
-  accessToken: string
+  /** Resolve a fresh access token before each connection attempt (null = session lost) */
+  getAccessToken: () => Promise<string | null>
   autoReconnect?: boolean
   reconnectDelay?: number
+  maxReconnectDelay?: number
+  reconnectJitter?: number
   maxReconnectAttempts?: number
+  heartbeatInterval?: number
+  heartbeatMaxMissed?: number
+  /** Delay before a sent command without ack is rejected (ms) */
+  requestTimeout?: number
+  /** Wire codecs offered to the server, by preference (defaults to VITE_WS_CODEC) */
+  codecs?: WireCodec[]
+  /** Socket factory, to plug in a simulated transport (see src/mock) */
+  createSocket?: (url: string, protocols?: string[]) => WebSocket
+  /** Run, in order, around every validated incoming event and every outgoing event */
+  middleware?: EventMiddleware[]
   onReceive?: (message: WebSocketMessage) => void
+  /** Frame the active codec could not read (the server also sends plain-text errors) */
+  onDecodeError?: (error: unknown, frame: WireFrame) => void
+  /** Event rejected by its schema (it is quarantined, not dispatched) */
+  onInvalidEvent?: (diagnostic: EventDiagnostic) => void
   onConnected?: () => void
   onDisconnected?: () => void
   onError?: (event: Event) => void
+  /** Called when the server rejects the token or no token can be obtained */
+  onAuthFailure?: () => void
 }
 
-export interface UseGameWebSocketReturn extends Omit<UseWebSocketReturn, 'send'> {
-  sendStartGame: () => void
-  sendVillageVote: (targetId: PlayerID | null) => void
-  sendSeerAction: (targetId: PlayerID) => void
-  sendWerewolfVote: (targetId: PlayerID | null) => void
-  sendWitchAction: (healTargetId?: PlayerID, poisonTargetId?: PlayerID) => void
-  sendActionResponse: (actionId: ActionID, response: ActionResponse) => void
-  sendRaw: (message: string) => void
+export interface UseGameWebSocketReturn extends Omit<UseWebSocketReturn, 'send' | 'dispose'> {
+  /** True when this tab owns the socket; other tabs showing the game go through it */
+  isLeaderTab: Ref<boolean>
+  /** Last events rejected by schema validation, most recent last */
+  quarantine: Ref<EventDiagnostic[]>
+  /** True while missed events are being requested from the server */
+  isResyncing: Ref<boolean>
+  /** Last sequence number delivered */
+  lastSeq: Ref<number | null>
+  /** Forget the event sequence: the next events belong to a new game */
+  resetSequence: () => void
+  /**
+   * Feed a synthetic server event through validation, sequencing and middleware
+   * (developer console). Returns why it was rejected, or null once dispatched.
+   */
+  injectEvent: (message: WebSocketMessage) => EventDiagnostic | null
+  sendStartGame: () => CommandRequest
+  sendChatMessage: (message: string, channel: ChatChannel) => OutboundMessage
+  sendSettings: (roles: RoleCounts) => CommandRequest
+  sendVillageVote: (targetId: PlayerID | null) => CommandRequest
+  sendSeerAction: (targetId: PlayerID) => CommandRequest
+  sendWerewolfVote: (targetId: PlayerID | null) => CommandRequest
+  sendWitchAction: (healTargetId?: PlayerID, poisonTargetId?: PlayerID) => CommandRequest
+  sendActionResponse: (actionId: ActionID, response: ActionResponse, expiresAt?: Date) => CommandRequest
+  sendRaw: (message: string, options?: SendOptions) => OutboundMessage
 }
 
+// Queue TTLs: a chat line or a settings change is pointless once the moment has passed
+const CHAT_QUEUE_TTL = 30000
+const SETTINGS_QUEUE_TTL = 10000
+const RESYNC_QUEUE_TTL = 5000
+
+// VITE_WS_CODEC=msgpack offers binary MessagePack, with JSON as fallback.
+// Unset: plain JSON without subprotocol, for servers that do not negotiate one.
+const DEFAULT_CODECS: WireCodec[] | undefined =
+  import.meta.env.VITE_WS_CODEC === 'msgpack' ? [msgpackCodec, jsonCodec] : undefined
+
+// Close codes sent by the server when the token is missing, invalid or expired
+const AUTH_FAILURE_CLOSE_CODES = [4001, 4003]
+
+// Rejected events kept for inspection
+const MAX_QUARANTINE = 50
+
 /**
  * Create a game-specific WebSocket connection
  */
 export function useGameWebSocket(options: UseGameWebSocketOptions): UseGameWebSocketReturn {
   const {
     gameId,
-    accessToken,
+    getAccessToken,
     autoReconnect = true,
-    reconnectDelay = 5000,
-    maxReconnectAttempts = 10,
+    reconnectDelay = 1000,
+    maxReconnectDelay = 30000,
+    reconnectJitter = 0.5,
+    maxReconnectAttempts = DEFAULT_MAX_RECONNECT_ATTEMPTS,
+    heartbeatInterval = 15000,
+    heartbeatMaxMissed = 2,
+    requestTimeout = 10000,
+    codecs = DEFAULT_CODECS,
+    createSocket,
+    middleware = [],
     onReceive,
+    onDecodeError,
+    onInvalidEvent,
     onConnected,
     onDisconnected,
     onError,
+    onAuthFailure,
   } = options
 
-  // Construct WebSocket URL
+  // Construct WebSocket URL (the token is sent in the first message, never in the URL)
   const WS_BASE_URL = import.meta.env.VITE_WS_URL || 'ws://localhost:8080'
-  const wsUrl = `${WS_BASE_URL}/app/ws/${gameId}?access_token=${accessToken}`
+  const wsUrl = `${WS_BASE_URL}/app/ws/${gameId}`
+
+  // Correlates commands with their ack/error through the request ID
+  const requests = useRequestTracker({ timeout: requestTimeout })
 
   // Create WebSocket connection
   const ws = useWebSocket(wsUrl, {
     autoReconnect,
     reconnectDelay,
+    maxReconnectDelay,
+    reconnectJitter,
     maxReconnectAttempts,
-    onReceive,
-    onConnected,
+    codecs,
+    createSocket,
+    heartbeat: {
+      interval: heartbeatInterval,
+      maxMissed: heartbeatMaxMissed,
+      createPing: (id, sentAt): GameEvent<PingEventData> => ({
+        channel: EventChannelConnexion,
+        type: EventTypePing,
+        data: { id, sentAt },
+      }),
+      matchPong: (message) => {
+        const event = message as GameEvent<PongEventData>
+        if (event.channel !== EventChannelConnexion || event.type !== EventTypePong) return null
+        return event.data?.id ?? null
+      },
+    },
+    onReceive: (message) => {
+      relay.publishMessage(message)
+      dispatch(message)
+    },
+    onDecodeError,
+    authenticate: async (): Promise<GameEvent<AuthEventData> | null> => {
+      const token = await getAccessToken()
+      if (!token) return null
+      return {
+        channel: EventChannelConnexion,
+        type: EventTypeAuth,
+        data: { token },
+      }
+    },
+    authFailureCodes: AUTH_FAILURE_CLOSE_CODES,
+    onAuthFailure: () => onAuthFailure?.(),
+    onConnected: () => {
+      relay.resetBacklog()
+      // Ask for whatever happened while we were away
+      sequencer.resume()
+      onConnected?.()
+    },
     onDisconnected,
     onError,
   })
 
+  // Whether connect() was requested: a follower connects once it takes the lead
+  let connectRequested = false
+
+  // One socket per game across tabs: the leader tab relays for the others
+  const relay = useTabRelay({
+    key: gameId,
+    onLeader: () => {
+      if (connectRequested) ws.connect().catch(console.error)
+    },
+    onCommand: (content, sendOptions) => ws.send(content, sendOptions),
+    onRetry: () => ws.retryNow(),
+    onMessage: (message) => dispatch(message),
+  })
+
+  const quarantine = ref<EventDiagnostic[]>([])
+
+  /**
+   * Validate then route an incoming message, received on our socket or relayed by the leader tab
+   */
+  function dispatch(message: WebSocketMessage): EventDiagnostic | null {
+    const result = validateIncomingEvent(message)
+    if (!result.valid) {
+      console.error(`[useGameWebSocket] Invalid event quarantined: ${formatDiagnostic(result.diagnostic)}`, message)
+      quarantine.value = [...quarantine.value, result.diagnostic].slice(-MAX_QUARANTINE)
+      onInvalidEvent?.(result.diagnostic)
+      return result.diagnostic
+    }
+
+    sequencer.process(result.event)
+    return null
+  }
+
+  // Per-game ordering: duplicates dropped, gaps filled by a resync before delivery
+  const sequencer = useEventSequencer({
+    isSnapshot: (event) => event.channel === EventChannelConnexion && event.type === EventTypeSnapshot,
+    requestResync: (lastSeq) => {
+      sendEvent<ResyncEventData>(
+        { channel: EventChannelConnexion, type: EventTypeResync, data: { lastSeq } },
+        { ttl: RESYNC_QUEUE_TTL }
+      )
+    },
+    deliver: (event) => {
+      // After the sequencer: a dropped event is not seen as a gap
+      const processed = runMiddleware(middleware, event, 'inbound')
+      if (!processed) return
+      const message = processed as WebSocketMessage
+      requests.handleMessage(message)
+      onReceive?.(message)
+    },
+  })
+
+  // The leader shares its connection state with the followers
+  watch(
+    (): RelayedState => ({
+      status: ws.status.value,
+      attempt: ws.attempt.value,
+      nextRetryAt: ws.nextRetryAt.value,
+      reconnectExhausted: ws.reconnectExhausted.value,
+      latency: ws.latency.value,
+      connectionQuality: ws.connectionQuality.value,
+      codec: ws.codec.value,
+    }),
+    (state) => relay.publishState(state),
+    { immediate: true }
+  )
+
+  /**
+   * Connection state of the leader tab, wherever it lives
+   */
+  function shared<K extends keyof RelayedState>(field: K, fallback: RelayedState[K]) {
+    return computed<RelayedState[K]>(() => {
+      if (relay.isLeader.value) return ws[field].value as RelayedState[K]
+      return relay.remoteState.value?.[field] ?? fallback
+    })
+  }
+
+  /**
+   * Open the connection (a follower tab only waits for the leader's events)
+   */
+  async function connect(): Promise<void> {
+    // Joining the game: its sequence starts over (a reconnection resumes it instead)
+    if (!connectRequested) sequencer.reset()
+    connectRequested = true
+    if (relay.isLeader.value) await ws.connect()
+  }
+
   /**
    * Generic send function for raw JSON messages
+   * Messages sent while disconnected are queued and replayed on reconnect
    */
-  function sendRaw(message: string): void {
-    ws.send(message)
+  function sendRaw(message: string, sendOptions?: SendOptions): OutboundMessage {
+    return relay.isLeader.value ? ws.send(message, sendOptions) : relay.forward(message, sendOptions)
   }
 
   /**
-   * Send a typed game event
+   * Send a typed game event (serialized by the negotiated codec)
    */
-  function sendEvent<T>(event: GameEvent<T>): void {
-    try {
-      sendRaw(JSON.stringify(event))
-    } catch (e) {
-      console.error('Error sending game event:', e)
+  function sendEvent<T>(event: GameEvent<T>, sendOptions?: SendOptions): OutboundMessage {
+    const processed = runMiddleware(middleware, event as GameEvent<unknown>, 'outbound')
+    if (!processed) {
+      // Dropped by a middleware: reported as failed so a tracked command rejects
+      return reactive<OutboundMessage>({
+        id: crypto.randomUUID(),
+        content: event as WebSocketMessage,
+        status: 'failed',
+        createdAt: Date.now(),
+        expiresAt: null,
+      }) as OutboundMessage
     }
+    return relay.isLeader.value ? ws.send(processed, sendOptions) : relay.forward(processed, sendOptions)
+  }
+
+  /**
+   * Send a command tagged with a fresh request ID
+   * The returned promise resolves on the matching ack and rejects on the matching
+   * error, on timeout, or if the command could not be delivered
+   */
+  function sendCommand<T>(channel: EventChannel, type: EventType, data: T, sendOptions?: SendOptions): CommandRequest {
+    const requestId = crypto.randomUUID()
+    const event: GameEvent<T> = { channel, type, data, requestId }
+    return requests.track(requestId, sendEvent(event, sendOptions), type)
   }
 
   /**
    * Start game (host only)
    */
-  function sendStartGame(): void {
-    const event: GameEvent<Record<string, never>> = {
-      channel: EventChannelGameEvent,
-      type: EventTypeStartGame,
-      data: {},
-    }
-    sendEvent(event)
+  function sendStartGame(): CommandRequest {
+    return sendCommand<Record<string, never>>(EventChannelGameEvent, EventTypeStartGame, {})
+  }
+
+  /**
+   * Send a chat message to a channel
+   * Sender fields are filled in by the server. Not tracked: chat is not acknowledged,
+   * the server's broadcast of the message is the confirmation
+   */
+  function sendChatMessage(message: string, channel: ChatChannel): OutboundMessage {
+    return sendEvent<ChatMessageEvent>(
+      {
+        channel: EventChannelGameEvent,
+        type: EventTypeChatMessage,
+        data: { playerID: '', nickname: '', message, channel },
+      },
+      { ttl: CHAT_QUEUE_TTL },
+    )
+  }
+
+  /**
+   * Send the role composition (host only, waiting phase)
+   */
+  function sendSettings(roles: RoleCounts): CommandRequest {
+    return sendCommand<GameSettingsEventData>(
+      EventChannelSettings,
+      EventTypeGameSettings,
+      { roles },
+      { ttl: SETTINGS_QUEUE_TTL },
+    )
   }
 
   /**
    * Send village vote during day phase
    * @deprecated Use sendActionResponse with VillageVoteResponse instead (action system)
    */
-  function sendVillageVote(targetId: PlayerID | null): void {
-    const event: GameEvent<{ targetId: PlayerID | null }> = {
-      channel: EventChannelGameEvent,
-      type: EventTypeVillageVote,
-      data: { targetId },
-    }
-    sendEvent(event)
+  function sendVillageVote(targetId: PlayerID | null): CommandRequest {
+    return sendCommand<{ targetId: PlayerID | null }>(EventChannelGameEvent, EventTypeVillageVote, { targetId })
   }
 
   /**
    * Send seer action during night phase
    * @deprecated Use sendActionResponse with SeerVisionResponse instead (action system)
    */
-  function sendSeerAction(targetId: PlayerID): void {
-    const event: GameEvent<{ targetId: PlayerID }> = {
-      channel: EventChannelGameEvent,
-      type: EventTypeSeerAction,
-      data: { targetId },
-    }
-    sendEvent(event)
+  function sendSeerAction(targetId: PlayerID): CommandRequest {
+    return sendCommand<{ targetId: PlayerID }>(EventChannelGameEvent, EventTypeSeerAction, { targetId })
   }
 
   /**
    * Send werewolf vote during night phase
    * @deprecated Use sendActionResponse with WerewolfVoteResponse instead (action system)
    */
-  function sendWerewolfVote(targetId: PlayerID | null): void {
-    const event: GameEvent<{ targetId: PlayerID | null }> = {
-      channel: EventChannelGameEvent,
-      type: EventTypeWerewolfVote,
-      data: { targetId },
-    }
-    sendEvent(event)
+  function sendWerewolfVote(targetId: PlayerID | null): CommandRequest {
+    return sendCommand<{ targetId: PlayerID | null }>(EventChannelGameEvent, EventTypeWerewolfVote, { targetId })
   }
 
   /**
    * Send witch action during night phase
    * @deprecated Use sendActionResponse with WitchPotionResponse instead (action system)
    */
-  function sendWitchAction(healTargetId?: PlayerID, poisonTargetId?: PlayerID): void {
-    const event: GameEvent<WitchActionData> = {
-      channel: EventChannelGameEvent,
-      type: EventTypeWitchAction,
-      data: { healTargetId, poisonTargetId },
-    }
-    sendEvent(event)
+  function sendWitchAction(healTargetId?: PlayerID, poisonTargetId?: PlayerID): CommandRequest {
+    return sendCommand<WitchActionData>(EventChannelGameEvent, EventTypeWitchAction, { healTargetId, poisonTargetId })
   }
 
   /**
@@ -172,28 +417,61 @@ export function useGameWebSocket(options: UseGameWebSocketOptions): UseGameWebSo
    * 
    * @param actionId - The action ID to respond to
    * @param response - The response payload (type-specific)
+   * @param expiresAt - Action deadline: a queued response is dropped once it has passed
    */
-  function sendActionResponse(actionId: ActionID, response: ActionResponse): void {
-    const event: GameEvent<{ actionId: ActionID; response: ActionResponse }> = {
-      channel: EventChannelAction,
-      type: EventTypeActionResponse,
-      data: { actionId, response },
-    }
-    sendEvent(event)
-    console.log(`[useGameWebSocket] Sent action response for ${actionId}`, response)
+  function sendActionResponse(actionId: ActionID, response: ActionResponse, expiresAt?: Date): CommandRequest {
+    return sendCommand<ActionResponseEventData>(
+      EventChannelAction,
+      EventTypeActionResponse,
+      { actionId, response },
+      expiresAt ? { expiresAt } : undefined,
+    )
   }
 
   return {
     // WebSocket state and methods
-    status: ws.status,
+    status: shared('status', 'connecting'),
     data: ws.data,
     error: ws.error,
-    connect: ws.connect,
-    close: ws.close,
-    reconnect: ws.reconnect,
+    outbox: computed(() => relay.isLeader.value ? ws.outbox.value : relay.outbox.value),
+    connect,
+    close: (code?: number, reason?: string) => {
+      connectRequested = false
+      // Final: also releases the network listeners and the heartbeat, even outside a component
+      ws.dispose(code, reason)
+      // Hand the connection over to another tab still showing the game
+      relay.dispose()
+      requests.rejectAll('Connection closed')
+      // Leaving the game: nothing left to resync
+      sequencer.reset()
+    },
+    reconnect: async () => {
+      if (relay.isLeader.value) await ws.reconnect()
+      else relay.requestRetry()
+    },
+    attempt: shared('attempt', 0),
+    nextRetryAt: shared('nextRetryAt', null),
+    isOnline: ws.isOnline,
+    maxReconnectAttempts: ws.maxReconnectAttempts,
+    reconnectExhausted: shared('reconnectExhausted', false),
+    retryNow: () => {
+      if (relay.isLeader.value) ws.retryNow()
+      else relay.requestRetry()
+    },
+    latency: shared('latency', null),
+    connectionQuality: shared('connectionQuality', 'unknown'),
+    codec: shared('codec', ''),
+    isLeaderTab: relay.isLeader,
+    quarantine,
+    isResyncing: sequencer.isResyncing,
+    lastSeq: sequencer.lastSeq,
+    resetSequence: sequencer.reset,
+    injectEvent: dispatch,
     
     // Game-specific send methods
     sendStartGame,
+    sendChatMessage,
+    sendSettings,
     sendVillageVote, // @deprecated
     sendSeerAction, // @deprecated
     sendWerewolfVote, // @deprecated
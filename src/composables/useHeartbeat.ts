@@ -0,0 +1,141 @@
+/**
+ * Composable useHeartbeat
+ *
+ * Ping/pong applicatif sur une WebSocket ouverte.
+ * Mesure la latence aller-retour et déclare la socket morte après trop de pings
+ * sans réponse, bien avant que le navigateur ne déclenche `onclose` sur un réseau instable.
+ */
+
+import { ref, type Ref } from 'vue'
+import type { WebSocketMessage } from './useWebSocket'
+
+export type ConnectionQuality = 'unknown' | 'good' | 'fair' | 'poor'
+
+export interface HeartbeatOptions {
+    /** Délai entre deux pings (ms) */
+    interval?: number
+    /** Pings sans réponse avant de considérer la socket morte */
+    maxMissed?: number
+    /** Construit le message de ping pour l'identifiant donné */
+    createPing: (id: string, sentAt: number) => WebSocketMessage
+    /** Identifiant du ping si le message est un pong, null sinon */
+    matchPong: (message: WebSocketMessage) => string | null
+}
+
+export interface UseHeartbeatOptions extends HeartbeatOptions {
+    /** Écrit le ping directement sur la socket (sans passer par la file d'envoi) */
+    send: (message: WebSocketMessage) => void
+    /** Appelé une fois la socket considérée morte */
+    onDead: () => void
+}
+
+export interface UseHeartbeatReturn {
+    /** Latence aller-retour lissée (ms), null avant le premier pong */
+    latency: Ref<number | null>
+    quality: Ref<ConnectionQuality>
+    start: () => void
+    stop: () => void
+    /** Vrai si le message était un pong (il est alors consommé) */
+    handleMessage: (message: WebSocketMessage) => boolean
+}
+
+// Seuils de latence de l'indicateur de qualité (ms)
+const GOOD_LATENCY = 150
+const FAIR_LATENCY = 400
+
+// Nombre d'échantillons de la moyenne glissante
+const LATENCY_SAMPLES = 5
+
+/**
+ * Convertit une latence en niveau de qualité
+ */
+export function latencyToQuality(latency: number | null): ConnectionQuality {
+    if (latency === null) return 'unknown'
+    if (latency < GOOD_LATENCY) return 'good'
+    if (latency < FAIR_LATENCY) return 'fair'
+    return 'poor'
+}
+
+/**
+ * Crée un heartbeat lié à une fonction d'écriture sur la socket
+ */
+export function useHeartbeat(options: UseHeartbeatOptions): UseHeartbeatReturn {
+    const {
+        interval = 15000,
+        maxMissed = 2,
+        createPing,
+        matchPong,
+        send,
+        onDead,
+    } = options
+
+    const latency = ref<number | null>(null)
+    const quality = ref<ConnectionQuality>('unknown')
+
+    // Non réactifs : timer et ping en attente de réponse
+    let heartbeatTimer: ReturnType<typeof setInterval> | null = null
+    let outstanding: { id: string; sentAt: number } | null = null
+    let missed = 0
+    let samples: number[] = []
+
+    function ping(): void {
+        if (outstanding) {
+            missed++
+            quality.value = 'poor'
+            if (missed >= maxMissed) {
+                console.warn(`[Heartbeat] ${missed} pong(s) manqué(s), connexion considérée morte`)
+                stop()
+                onDead()
+                return
+            }
+        }
+
+        const id = crypto.randomUUID()
+        const sentAt = Date.now()
+        outstanding = { id, sentAt }
+        send(createPing(id, sentAt))
+    }
+
+    function start(): void {
+        stop()
+        ping()
+        heartbeatTimer = setInterval(ping, interval)
+    }
+
+    function stop(): void {
+        if (heartbeatTimer) {
+            clearInterval(heartbeatTimer)
+            heartbeatTimer = null
+        }
+        outstanding = null
+        missed = 0
+        samples = []
+        latency.value = null
+        quality.value = 'unknown'
+    }
+
+    function handleMessage(message: WebSocketMessage): boolean {
+        const id = matchPong(message)
+        if (id === null) return false
+
+        // Pong tardif d'un ping déjà abandonné : ignoré
+        if (!outstanding || outstanding.id !== id) return true
+
+        const rtt = Date.now() - outstanding.sentAt
+        outstanding = null
+        missed = 0
+
+        samples = [...samples, rtt].slice(-LATENCY_SAMPLES)
+        latency.value = Math.round(samples.reduce((sum, value) => sum + value, 0) / samples.length)
+        quality.value = latencyToQuality(latency.value)
+        return true
+    }
+
+    return {
+        latency,
+        quality,
+        start,
+        stop,
+        handleMessage,
+    }
+}
@@ -0,0 +1,188 @@
+/**
+ * Composable useReconnectStrategy
+ *
+ * Planifie les tentatives de reconnexion avec un backoff exponentiel et du jitter.
+ * Sensible au réseau : les tentatives sont suspendues hors ligne et relancées
+ * aussitôt que la connexion revient ou que l'onglet redevient visible.
+ */
+
+import { ref, computed, onUnmounted, getCurrentInstance, type Ref, type ComputedRef } from 'vue'
+
+export interface ReconnectStrategyOptions {
+    /** Délai avant la première tentative (ms) */
+    baseDelay?: number
+    /** Délai maximum entre deux tentatives (ms) */
+    maxDelay?: number
+    /** Facteur multiplicatif appliqué au délai après chaque échec */
+    factor?: number
+    /** Part aléatoire retirée de chaque délai (0 = aucune, 1 = jitter complet) */
+    jitter?: number
+    /** Nombre de tentatives automatiques avant abandon */
+    maxAttempts?: number
+}
+
+export interface UseReconnectStrategyOptions extends ReconnectStrategyOptions {
+    /** Appelé à chaque tentative due */
+    onRetry: () => void
+}
+
+export interface UseReconnectStrategyReturn {
+    /** Nombre de tentatives automatiques depuis le dernier succès */
+    attempt: Ref<number>
+    /** Horodatage (ms) de la prochaine tentative planifiée, null si aucune */
+    nextRetryAt: Ref<number | null>
+    /** Reflète navigator.onLine */
+    isOnline: Ref<boolean>
+    /** Vrai tant qu'une tentative est attendue (planifiée ou suspendue hors ligne) */
+    isPending: Ref<boolean>
+    /** Vrai quand maxAttempts est atteint */
+    isExhausted: ComputedRef<boolean>
+    schedule: () => void
+    retryNow: () => void
+    cancel: () => void
+    reset: () => void
+    dispose: () => void
+}
+
+const DEFAULT_OPTIONS: Required<ReconnectStrategyOptions> = {
+    baseDelay: 1000,
+    maxDelay: 30000,
+    factor: 2,
+    jitter: 0.5,
+    maxAttempts: Infinity,
+}
+
+/**
+ * Calcule le délai avant la tentative donnée (numérotée à partir de 0)
+ */
+export function computeBackoffDelay(attempt: number, options: ReconnectStrategyOptions = {}): number {
+    const { baseDelay, maxDelay, factor, jitter } = { ...DEFAULT_OPTIONS, ...options }
+    const exponential = Math.min(maxDelay, baseDelay * Math.pow(factor, attempt))
+    const ratio = Math.min(1, Math.max(0, jitter))
+    return Math.round(exponential - Math.random() * exponential * ratio)
+}
+
+/**
+ * Crée un planificateur de reconnexion
+ */
+export function useReconnectStrategy(options: UseReconnectStrategyOptions): UseReconnectStrategyReturn {
+    const { onRetry, ...strategy } = options
+    const config = { ...DEFAULT_OPTIONS, ...strategy }
+
+    const attempt = ref(0)
+    const nextRetryAt = ref<number | null>(null)
+    const isOnline = ref(typeof navigator === 'undefined' ? true : navigator.onLine)
+    const isPending = ref(false)
+
+    const isExhausted = computed(() => attempt.value >= config.maxAttempts)
+
+    // Timer (non réactif)
+    let retryTimer: ReturnType<typeof setTimeout> | null = null
+
+    function clearTimer(): void {
+        if (retryTimer) {
+            clearTimeout(retryTimer)
+            retryTimer = null
+        }
+        nextRetryAt.value = null
+    }
+
+    function fire(): void {
+        clearTimer()
+        isPending.value = false
+        attempt.value++
+        onRetry()
+    }
+
+    /**
+     * Planifie la prochaine tentative automatique selon le backoff
+     */
+    function schedule(): void {
+        if (retryTimer || isExhausted.value) return
+
+        isPending.value = true
+
+        // Hors ligne : on attend l'événement 'online' plutôt que de gaspiller des tentatives
+        if (!isOnline.value) return
+
+        const delay = computeBackoffDelay(attempt.value, config)
+        nextRetryAt.value = Date.now() + delay
+        retryTimer = setTimeout(fire, delay)
+    }
+
+    /**
+     * Saute le délai restant et tente immédiatement
+     */
+    function retryNow(): void {
+        fire()
+    }
+
+    /**
+     * Annule la tentative planifiée
+     */
+    function cancel(): void {
+        clearTimer()
+        isPending.value = false
+    }
+
+    /**
+     * Remet le compteur de tentatives à zéro (après une connexion réussie)
+     */
+    function reset(): void {
+        cancel()
+        attempt.value = 0
+    }
+
+    // ========================
+    // Signaux du navigateur
+    // ========================
+
+    function handleOnline(): void {
+        isOnline.value = true
+        if (isPending.value) fire()
+    }
+
+    function handleOffline(): void {
+        isOnline.value = false
+        // On garde la tentative en attente, seul le compte à rebours est suspendu
+        clearTimer()
+    }
+
+    function handleVisibilityChange(): void {
+        if (document.visibilityState === 'visible' && isPending.value && isOnline.value) {
+            fire()
+        }
+    }
+
+    if (typeof window !== 'undefined') {
+        window.addEventListener('online', handleOnline)
+        window.addEventListener('offline', handleOffline)
+        document.addEventListener('visibilitychange', handleVisibilityChange)
+    }
+
+    function dispose(): void {
+        cancel()
+        if (typeof window !== 'undefined') {
+            window.removeEventListener('online', handleOnline)
+            window.removeEventListener('offline', handleOffline)
+            document.removeEventListener('visibilitychange', handleVisibilityChange)
+        }
+    }
+
+    if (getCurrentInstance()) {
+        onUnmounted(dispose)
+    }
+
+    return {
+        attempt,
+        nextRetryAt,
+        isOnline,
+        isPending,
+        isExhausted,
+        schedule,
+        retryNow,
+        cancel,
+        reset,
+        dispose,
+    }
+}
@@ -0,0 +1,169 @@
+/**
+ * useReplay Composable
+ *
+ * Plays a session journal back without a server: received events are validated
+ * and handed to the normal dispatcher, at their recorded pace, faster, or one by one.
+ * Sent events are only shown, they have no effect on the state.
+ */
+
+import { ref, computed, watch, onUnmounted, getCurrentInstance, type Ref, type ComputedRef } from 'vue'
+import type { Event as GameEvent } from '@/types/events'
+import type { JournalEntry, SessionJournal } from '@/types/journal'
+import { validateIncomingEvent, formatDiagnostic, type EventDiagnostic } from '@/schemas'
+
+export const REPLAY_SPEEDS = [1, 4, 16] as const
+export type ReplaySpeed = typeof REPLAY_SPEEDS[number]
+
+export interface UseReplayOptions {
+  /** Route a received event, as the game view does */
+  dispatch: (event: GameEvent<unknown>) => void
+  /** Bring the state back to the start of the journal */
+  reset: (journal: SessionJournal) => void
+}
+
+export interface UseReplayReturn {
+  journal: Ref<SessionJournal | null>
+  /** Number of entries already applied; the next one is entries[position] */
+  position: Ref<number>
+  /** Last entry applied */
+  current: ComputedRef<JournalEntry | null>
+  isPlaying: Ref<boolean>
+  isFinished: ComputedRef<boolean>
+  speed: Ref<ReplaySpeed>
+  /** Recorded events that no longer match their schema (skipped) */
+  rejected: Ref<EventDiagnostic[]>
+  load: (journal: SessionJournal) => void
+  play: () => void
+  pause: () => void
+  /** Apply the next entry; false at the end of the journal */
+  step: () => boolean
+  /** Replay from the start up to the given position, instantly */
+  seek: (position: number) => void
+}
+
+/**
+ * Create a replay driver
+ */
+export function useReplay(options: UseReplayOptions): UseReplayReturn {
+  const { dispatch, reset } = options
+
+  const journal = ref<SessionJournal | null>(null)
+  const position = ref(0)
+  const isPlaying = ref(false)
+  const speed = ref<ReplaySpeed>(1)
+  const rejected = ref<EventDiagnostic[]>([])
+
+  let playTimer: ReturnType<typeof setTimeout> | null = null
+
+  const entries = computed(() => journal.value?.entries ?? [])
+  const current = computed(() => entries.value[position.value - 1] ?? null)
+  const isFinished = computed(() => position.value >= entries.value.length)
+
+  function apply(entry: JournalEntry): void {
+    if (entry.direction !== 'inbound') return
+
+    const result = validateIncomingEvent(entry.event)
+    if (!result.valid) {
+      console.warn(`[Replay] Événement ignoré : ${formatDiagnostic(result.diagnostic)}`)
+      rejected.value = [...rejected.value, result.diagnostic]
+      return
+    }
+    dispatch(result.event)
+  }
+
+  function step(): boolean {
+    const entry = entries.value[position.value]
+    if (!entry) return false
+    position.value++
+    apply(entry)
+    return true
+  }
+
+  function clearPlayTimer(): void {
+    if (playTimer) {
+      clearTimeout(playTimer)
+      playTimer = null
+    }
+  }
+
+  /**
+   * Wait for the recorded gap before the next entry, scaled by the speed
+   */
+  function scheduleNext(): void {
+    clearPlayTimer()
+    const next = entries.value[position.value]
+    if (!next) {
+      isPlaying.value = false
+      return
+    }
+
+    const previousOffset = current.value?.offset ?? next.offset
+    const delay = Math.max(0, next.offset - previousOffset) / speed.value
+    playTimer = setTimeout(() => {
+      playTimer = null
+      step()
+      scheduleNext()
+    }, delay)
+  }
+
+  function play(): void {
+    if (!journal.value || isPlaying.value || isFinished.value) return
+    isPlaying.value = true
+    scheduleNext()
+  }
+
+  function pause(): void {
+    clearPlayTimer()
+    isPlaying.value = false
+  }
+
+  function restart(): void {
+    if (!journal.value) return
+    reset(journal.value)
+    position.value = 0
+    rejected.value = []
+  }
+
+  function seek(target: number): void {
+    const wasPlaying = isPlaying.value
+    pause()
+
+    // Events only move forward: going back means replaying from the start
+    if (target < position.value) restart()
+    while (position.value < target && step()) {
+      // applied one by one, synchronously
+    }
+
+    if (wasPlaying) play()
+  }
+
+  function load(next: SessionJournal): void {
+    pause()
+    journal.value = next
+    restart()
+  }
+
+  // A new speed applies to the wait in progress
+  watch(speed, () => {
+    if (isPlaying.value) scheduleNext()
+  })
+
+  if (getCurrentInstance()) {
+    onUnmounted(pause)
+  }
+
+  return {
+    journal,
+    position,
+    current,
+    isPlaying,
+    isFinished,
+    speed,
+    rejected,
+    load,
+    play,
+    pause,
+    step,
+    seek,
+  }
+}
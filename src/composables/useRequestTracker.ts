@@ -0,0 +1,132 @@
+/**
+ * Composable useRequestTracker
+ *
+ * Associe les commandes de jeu sortantes aux événements ack/error du serveur
+ * grâce à un identifiant de requête généré côté client, et expose chaque commande
+ * comme une Promise. Une réponse sans identifiant règle la plus ancienne commande
+ * en attente de la même action.
+ */
+
+import { watch } from 'vue'
+import type { OutboundMessage, WebSocketMessage } from './useWebSocket'
+import type { AckEventData, ErrorEventData, Event as GameEvent } from '@/types/events'
+import { EventTypeAck, EventTypeError } from '@/types/events'
+import { CommandError } from '@/utils/commandError'
+
+/**
+ * Commande en cours : attendable, avec accès à son statut de livraison
+ */
+export type CommandRequest = Promise<AckEventData> & {
+    requestId: string
+    delivery: OutboundMessage
+}
+
+export interface UseRequestTrackerOptions {
+    /** Délai entre la livraison et l'ack avant abandon (ms) */
+    timeout?: number
+}
+
+export interface UseRequestTrackerReturn {
+    /** `action` : type de commande que le serveur nomme dans son ack/error */
+    track: (requestId: string, delivery: OutboundMessage, action: string) => CommandRequest
+    /** Règle la requête correspondante ; ne consomme jamais le message */
+    handleMessage: (message: WebSocketMessage) => void
+    /** Rejette toutes les requêtes encore en cours */
+    rejectAll: (message: string) => void
+}
+
+interface PendingRequest {
+    action: string
+    resolve: (ack: AckEventData) => void
+    reject: (error: CommandError) => void
+    timer: ReturnType<typeof setTimeout> | null
+    stopWatch: () => void
+}
+
+/**
+ * Crée un suivi de requêtes
+ */
+export function useRequestTracker(options: UseRequestTrackerOptions = {}): UseRequestTrackerReturn {
+    const { timeout = 10000 } = options
+
+    const pending = new Map<string, PendingRequest>()
+
+    function settle(requestId: string): PendingRequest | null {
+        const request = pending.get(requestId)
+        if (!request) return null
+        pending.delete(requestId)
+        if (request.timer) clearTimeout(request.timer)
+        request.stopWatch()
+        return request
+    }
+
+    // Serveurs qui ne renvoient pas encore l'identifiant : la plus ancienne commande de cette action
+    // (une Map conserve l'ordre d'insertion)
+    function resolveRequestId(requestId: string | undefined, action: string | undefined): string | null {
+        if (requestId) return pending.has(requestId) ? requestId : null
+        if (!action) return null
+        for (const [id, request] of pending) {
+            if (request.action === action) return id
+        }
+        return null
+    }
+
+    function track(requestId: string, delivery: OutboundMessage, action: string): CommandRequest {
+        const promise = new Promise<AckEventData>((resolve, reject) => {
+            const request: PendingRequest = { action, resolve, reject, timer: null, stopWatch: () => {} }
+            pending.set(requestId, request)
+
+            // Le délai d'ack ne court qu'une fois la commande réellement partie
+            const onStatus = (status: OutboundMessage['status']) => {
+                if (status === 'sent' && !request.timer) {
+                    request.timer = setTimeout(() => {
+                        settle(requestId)?.reject(new CommandError('timeout', requestId, `No response for request ${requestId}`))
+                    }, timeout)
+                } else if (status === 'expired' || status === 'failed') {
+                    settle(requestId)?.reject(new CommandError('undelivered', requestId, `Request ${requestId} was not delivered (${status})`))
+                }
+            }
+
+            request.stopWatch = watch(() => delivery.status, onStatus)
+            onStatus(delivery.status)
+        })
+
+        // Les appelants peuvent ignorer le résultat : pas de rejet non géré
+        promise.catch(() => {})
+
+        return Object.assign(promise, { requestId, delivery })
+    }
+
+    function handleMessage(message: WebSocketMessage): void {
+        const event = message as GameEvent<AckEventData | ErrorEventData>
+        if (event.type !== EventTypeAck && event.type !== EventTypeError) return
+        const requestId = resolveRequestId(event.data?.requestId, event.data?.action)
+        if (!requestId) return
+
+        if (event.type === EventTypeAck) {
+            const ack = event.data as AckEventData
+            const request = settle(requestId)
+            if (!request) return
+            if (ack.success) {
+                request.resolve(ack)
+            } else {
+                request.reject(new CommandError('rejected', requestId, ack.message ?? `Request ${requestId} failed`))
+            }
+        } else if (event.type === EventTypeError) {
+            const error = event.data as ErrorEventData
+            settle(requestId)?.reject(new CommandError('rejected', requestId, error.message, error.code))
+        }
+    }
+
+    function rejectAll(message: string): void {
+        for (const requestId of [...pending.keys()]) {
+            settle(requestId)?.reject(new CommandError('undelivered', requestId, message))
+        }
+    }
+
+    return {
+        track,
+        handleMessage,
+        rejectAll,
+    }
+}
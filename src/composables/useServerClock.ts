@@ -0,0 +1,114 @@
+/**
+ * useServerClock Composable
+ *
+ * One clock for every countdown of the app. Remaining times are computed from
+ * deadlines rather than decremented by intervals, so they stay right when the tab
+ * is throttled in the background or the device wakes up.
+ *
+ * The clock ticks on animation frames while the page is visible and catches up as
+ * soon as it becomes visible again. It also estimates the offset between the server
+ * clock and the local one, for deadlines expressed in server time (`expiresAt`).
+ */
+
+import { ref, readonly, type Ref } from 'vue'
+
+export interface UseServerClockReturn {
+  /** Local time (ms), refreshed several times per second while the page is visible */
+  now: Readonly<Ref<number>>
+  /** Estimated server time minus local time (ms) */
+  offset: Readonly<Ref<number>>
+  /** Current time on the server's clock (ms) */
+  serverNow: () => number
+  /** Record a server timestamp (ms) that was just received */
+  observe: (serverTime: number, receivedAt?: number) => void
+  /** Forget the offset samples (new game or connection, possibly another server) */
+  reset: () => void
+  /** Whole seconds left before a deadline in server time, never negative */
+  secondsUntilServer: (deadline: Date | number) => number
+  /** Whole seconds left before a deadline in local time, never negative */
+  secondsUntilLocal: (deadline: number) => number
+}
+
+// Refresh period of `now` (ms): often enough for a countdown to flip on time
+const TICK_INTERVAL = 200
+
+// Offset samples kept
+const MAX_SAMPLES = 16
+
+// Shared by every caller: there is a single clock
+const now = ref(Date.now())
+const offset = ref(0)
+const samples: number[] = []
+let frame: number | null = null
+let started = false
+
+function refresh(): void {
+  const current = Date.now()
+  if (current - now.value >= TICK_INTERVAL) now.value = current
+}
+
+function loop(): void {
+  refresh()
+  frame = requestAnimationFrame(loop)
+}
+
+function handleVisibilityChange(): void {
+  if (document.hidden) {
+    if (frame !== null) cancelAnimationFrame(frame)
+    frame = null
+    return
+  }
+  // Catch up at once after a background period
+  now.value = Date.now()
+  if (frame === null) frame = requestAnimationFrame(loop)
+}
+
+function start(): void {
+  if (started || typeof window === 'undefined') return
+  started = true
+  document.addEventListener('visibilitychange', handleVisibilityChange)
+  handleVisibilityChange()
+}
+
+function observe(serverTime: number, receivedAt: number = Date.now()): void {
+  if (!Number.isFinite(serverTime)) return
+  samples.push(serverTime - receivedAt)
+  if (samples.length > MAX_SAMPLES) samples.shift()
+  // Each sample falls short of the offset by the transit time: the highest is the closest
+  offset.value = Math.max(...samples)
+}
+
+function reset(): void {
+  samples.length = 0
+  offset.value = 0
+}
+
+function serverNow(): number {
+  return now.value + offset.value
+}
+
+function secondsUntilServer(deadline: Date | number): number {
+  const target = typeof deadline === 'number' ? deadline : deadline.getTime()
+  return Math.max(0, Math.ceil((target - serverNow()) / 1000))
+}
+
+function secondsUntilLocal(deadline: number): number {
+  return Math.max(0, Math.ceil((deadline - now.value) / 1000))
+}
+
+/**
+ * Get the shared clock (started on first use)
+ */
+export function useServerClock(): UseServerClockReturn {
+  start()
+
+  return {
+    now: readonly(now),
+    offset: readonly(offset),
+    serverNow,
+    observe,
+    reset,
+    secondsUntilServer,
+    secondsUntilLocal,
+  }
+}
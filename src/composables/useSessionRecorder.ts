@@ -0,0 +1,90 @@
+/**
+ * useSessionRecorder Composable
+ *
+ * Records every event received and sent during a game, with its time, into a
+ * journal that can be downloaded and replayed (see useReplay). It is an event
+ * middleware: place it right after the redaction middleware, so it stores the
+ * redacted copy and sees events before any is dropped.
+ */
+
+import { ref, toRaw, type Ref } from 'vue'
+import type { EventMiddleware } from '@/middleware'
+import type { JournalEntry, SessionJournal } from '@/types/journal'
+import type { PlayerID } from '@/types/player'
+import { JOURNAL_VERSION } from '@/schemas'
+import { downloadJournal } from '@/utils/journal'
+
+export interface UseSessionRecorderOptions {
+  gameId: string
+  /** Player whose point of view is recorded */
+  playerId: () => PlayerID | null
+  /** Entries kept before the recording stops */
+  maxEntries?: number
+}
+
+export interface UseSessionRecorderReturn {
+  middleware: EventMiddleware
+  /** Number of recorded entries */
+  size: Ref<number>
+  /** True once maxEntries was reached (later events are not recorded) */
+  truncated: Ref<boolean>
+  /** Snapshot of the recording so far */
+  journal: () => SessionJournal
+  download: () => void
+  clear: () => void
+}
+
+/**
+ * Create a session recorder
+ */
+export function useSessionRecorder(options: UseSessionRecorderOptions): UseSessionRecorderReturn {
+  const { gameId, playerId, maxEntries = 20000 } = options
+
+  // Not reactive: the journal can grow to thousands of events
+  let entries: JournalEntry[] = []
+  let startedAt = Date.now()
+  const size = ref(0)
+  const truncated = ref(false)
+
+  const middleware: EventMiddleware = (event, next, context) => {
+    if (entries.length < maxEntries) {
+      entries.push({
+        offset: Date.now() - startedAt,
+        direction: context.direction,
+        // Deep copy: handlers keep references to the payloads and may mutate them
+        event: JSON.parse(JSON.stringify(toRaw(context.printable ?? event))),
+      })
+      size.value = entries.length
+    } else {
+      truncated.value = true
+    }
+    next(event)
+  }
+
+  function journal(): SessionJournal {
+    return {
+      version: JOURNAL_VERSION,
+      gameId,
+      playerId: playerId(),
+      startedAt: new Date(startedAt).toISOString(),
+      truncated: truncated.value,
+      entries: [...entries],
+    }
+  }
+
+  function clear(): void {
+    entries = []
+    startedAt = Date.now()
+    size.value = 0
+    truncated.value = false
+  }
+
+  return {
+    middleware,
+    size,
+    truncated,
+    journal,
+    download: () => downloadJournal(journal()),
+    clear,
+  }
+}
@@ -0,0 +1,339 @@
+/**
+ * Composable useTabRelay
+ *
+ * Partage une seule connexion entre les onglets qui affichent la même partie.
+ * Un Web Lock élit un onglet leader, propriétaire de la vraie socket ; les autres
+ * sont suiveurs. Via un BroadcastChannel, le leader relaie les messages reçus et
+ * l'état de sa connexion, et les suiveurs lui confient leurs messages sortants.
+ * Le verrou est libéré à la fermeture de l'onglet leader : la main passe d'elle-même.
+ */
+
+import { ref, reactive, watch, toRaw, type Ref } from 'vue'
+import type { WebSocketMessage, WebSocketStatus, OutboundMessage, DeliveryStatus, SendOptions } from './useWebSocket'
+import type { ConnectionQuality } from './useHeartbeat'
+
+/** État de connexion publié par le leader */
+export interface RelayedState {
+    status: WebSocketStatus
+    attempt: number
+    nextRetryAt: number | null
+    reconnectExhausted: boolean
+    latency: number | null
+    connectionQuality: ConnectionQuality
+    codec: string
+}
+
+type RelayPacket =
+    | { kind: 'hello'; tabId: string }
+    | { kind: 'leader'; tabId: string }
+    | { kind: 'sync'; target: string; messages: WebSocketMessage[]; state: RelayedState }
+    | { kind: 'message'; message: WebSocketMessage }
+    | { kind: 'state'; state: RelayedState }
+    | { kind: 'command'; tabId: string; id: string; content: WebSocketMessage | string; expiresAt: number | null }
+    | { kind: 'delivery'; target: string; id: string; status: DeliveryStatus }
+    | { kind: 'retry' }
+
+export interface UseTabRelayOptions {
+    /** Les onglets de même clé partagent une connexion */
+    key: string
+    /** Messages conservés par le leader pour mettre à jour un nouveau suiveur */
+    maxBacklog?: number
+    /** Côté leader : appelé quand cet onglet prend la main */
+    onLeader: () => void
+    /** Côté leader : envoie le message d'un suiveur sur la vraie socket */
+    onCommand: (content: WebSocketMessage | string, options: SendOptions) => OutboundMessage
+    /** Côté leader : un suiveur demande une tentative immédiate */
+    onRetry: () => void
+    /** Côté suiveur : un message reçu par le leader */
+    onMessage: (message: WebSocketMessage) => void
+}
+
+export interface UseTabRelayReturn {
+    /** Vrai quand cet onglet possède la connexion (toujours vrai sans support navigateur) */
+    isLeader: Ref<boolean>
+    /** État de connexion du leader, vu par un suiveur */
+    remoteState: Ref<RelayedState | null>
+    /** Messages du suiveur pas encore confirmés par le leader */
+    outbox: Ref<OutboundMessage[]>
+    /** Leader : relaie un message reçu aux suiveurs */
+    publishMessage: (message: WebSocketMessage) => void
+    /** Leader : partage l'état de connexion */
+    publishState: (state: RelayedState) => void
+    /** Leader : une nouvelle socket repart d'un historique vide (le serveur renvoie son snapshot) */
+    resetBacklog: () => void
+    /** Suiveur : confie un message au leader */
+    forward: (content: WebSocketMessage | string, options?: SendOptions) => OutboundMessage
+    /** Suiveur : demande au leader une tentative immédiate */
+    requestRetry: () => void
+    /** Abandonne la main et quitte le canal */
+    dispose: () => void
+}
+
+const TERMINAL_STATUSES: DeliveryStatus[] = ['sent', 'expired', 'failed']
+
+/**
+ * Vérifie la présence des API navigateur utilisées par le relais
+ */
+export function isTabRelaySupported(): boolean {
+    return typeof BroadcastChannel !== 'undefined' && typeof navigator !== 'undefined' && !!navigator.locks
+}
+
+/**
+ * Crée un relais entre onglets
+ */
+export function useTabRelay(options: UseTabRelayOptions): UseTabRelayReturn {
+    const { key, maxBacklog = 1000, onLeader, onCommand, onRetry, onMessage } = options
+
+    const tabId = crypto.randomUUID()
+    const isLeader = ref(false)
+    const remoteState = ref<RelayedState | null>(null)
+    const outbox = ref<OutboundMessage[]>([])
+
+    // Leader : messages depuis l'ouverture de la socket, et commandes des suiveurs déjà traitées
+    let backlog: WebSocketMessage[] = []
+    let lastState: RelayedState | null = null
+    const handledCommands = new Map<string, OutboundMessage>()
+
+    // Suiveur : les messages en direct sont ignorés tant que l'historique n'est pas reçu
+    let synced = false
+
+    // Pas de support multi-onglets : cet onglet possède simplement sa connexion
+    if (!isTabRelaySupported()) {
+        isLeader.value = true
+        onLeader()
+        return {
+            isLeader,
+            remoteState,
+            outbox,
+            publishMessage: () => {},
+            publishState: () => {},
+            resetBacklog: () => {},
+            forward: (content, sendOptions) => onCommand(content, sendOptions ?? {}),
+            requestRetry: onRetry,
+            dispose: () => {},
+        }
+    }
+
+    const channel = new BroadcastChannel(`shamus-relay:${key}`)
+    const lockAbort = new AbortController()
+    let releaseLock: (() => void) | null = null
+    let disposed = false
+
+    function post(packet: RelayPacket): void {
+        if (disposed) return
+        channel.postMessage(packet)
+    }
+
+    // ========================
+    // Élection du leader
+    // ========================
+
+    navigator.locks
+        .request(`shamus-relay:${key}`, { signal: lockAbort.signal }, () => {
+            if (disposed) return
+            isLeader.value = true
+            console.log(`[TabRelay] Onglet leader pour ${key}`)
+
+            // Nos messages en attente passent désormais par notre propre socket
+            for (const message of [...outbox.value]) {
+                const outbound = onCommand(message.content, { expiresAt: message.expiresAt ?? undefined })
+                trackOutbound(outbound, (status) => settleForward(message.id, status))
+            }
+
+            post({ kind: 'leader', tabId })
+            onLeader()
+
+            // Garde le verrou jusqu'à dispose() ou la fermeture de l'onglet
+            return new Promise<void>((resolve) => {
+                releaseLock = resolve
+            })
+        })
+        .catch((e: unknown) => {
+            // AbortError : dispose() appelé pendant l'attente du verrou
+            if (!(e instanceof DOMException && e.name === 'AbortError')) {
+                console.error('[TabRelay] Verrou indisponible:', e)
+            }
+        })
+
+    // ========================
+    // Canal
+    // ========================
+
+    channel.onmessage = (event: MessageEvent<RelayPacket>) => {
+        const packet = event.data
+        if (isLeader.value) {
+            handleAsLeader(packet)
+        } else {
+            handleAsFollower(packet)
+        }
+    }
+
+    function handleAsLeader(packet: RelayPacket): void {
+        switch (packet.kind) {
+            case 'hello':
+                if (lastState) {
+                    post({ kind: 'sync', target: packet.tabId, messages: backlog, state: lastState })
+                }
+                break
+            case 'command':
+                handleCommand(packet)
+                break
+            case 'retry':
+                onRetry()
+                break
+        }
+    }
+
+    function handleAsFollower(packet: RelayPacket): void {
+        switch (packet.kind) {
+            case 'sync':
+                if (packet.target !== tabId || synced) return
+                synced = true
+                remoteState.value = packet.state
+                packet.messages.forEach(onMessage)
+                break
+            case 'message':
+                if (synced) onMessage(packet.message)
+                break
+            case 'state':
+                remoteState.value = packet.state
+                break
+            case 'leader':
+                // Nouveau leader : il renverra un snapshot, et a pu manquer nos messages
+                synced = true
+                for (const message of outbox.value) {
+                    postCommand(message)
+                }
+                break
+            case 'delivery':
+                if (packet.target === tabId) settleForward(packet.id, packet.status)
+                break
+        }
+    }
+
+    // ========================
+    // Côté leader
+    // ========================
+
+    function trackOutbound(outbound: OutboundMessage, onStatus: (status: DeliveryStatus) => void): void {
+        // Déjà réglé (envoyé aussitôt sur une socket ouverte, par exemple) : rien à surveiller
+        onStatus(outbound.status)
+        if (TERMINAL_STATUSES.includes(outbound.status)) return
+
+        const stop = watch(
+            () => outbound.status,
+            (status) => {
+                onStatus(status)
+                if (TERMINAL_STATUSES.includes(status)) stop()
+            }
+        )
+    }
+
+    function handleCommand(packet: Extract<RelayPacket, { kind: 'command' }>): void {
+        // Une commande renvoyée (changement de leader) est seulement réacquittée
+        const existing = handledCommands.get(packet.id)
+        if (existing) {
+            post({ kind: 'delivery', target: packet.tabId, id: packet.id, status: existing.status })
+            return
+        }
+
+        const outbound = onCommand(packet.content, { expiresAt: packet.expiresAt ?? undefined })
+        handledCommands.set(packet.id, outbound)
+        trackOutbound(outbound, (status) => {
+            post({ kind: 'delivery', target: packet.tabId, id: packet.id, status })
+            if (TERMINAL_STATUSES.includes(status)) handledCommands.delete(packet.id)
+        })
+    }
+
+    function publishMessage(message: WebSocketMessage): void {
+        if (!isLeader.value) return
+        const raw = toRaw(message)
+        backlog.push(raw)
+        if (backlog.length > maxBacklog) backlog.shift()
+        post({ kind: 'message', message: raw })
+    }
+
+    function publishState(state: RelayedState): void {
+        if (!isLeader.value) return
+        lastState = state
+        post({ kind: 'state', state })
+    }
+
+    function resetBacklog(): void {
+        backlog = []
+    }
+
+    // ========================
+    // Côté suiveur
+    // ========================
+
+    function postCommand(message: OutboundMessage): void {
+        post({
+            kind: 'command',
+            tabId,
+            id: message.id,
+            content: toRaw(message.content),
+            expiresAt: message.expiresAt,
+        })
+    }
+
+    function settleForward(id: string, status: DeliveryStatus): void {
+        const message = outbox.value.find((m) => m.id === id)
+        if (!message) return
+        message.status = status
+        if (TERMINAL_STATUSES.includes(status)) {
+            outbox.value = outbox.value.filter((m) => m.id !== id)
+        }
+    }
+
+    function forward(content: WebSocketMessage | string, sendOptions: SendOptions = {}): OutboundMessage {
+        const createdAt = Date.now()
+        let expiresAt: number | null = null
+        if (sendOptions.expiresAt !== undefined) {
+            expiresAt = sendOptions.expiresAt instanceof Date ? sendOptions.expiresAt.getTime() : sendOptions.expiresAt
+        } else if (sendOptions.ttl) {
+            expiresAt = createdAt + sendOptions.ttl
+        }
+
+        const message = reactive<OutboundMessage>({
+            id: crypto.randomUUID(),
+            content,
+            status: 'queued',
+            createdAt,
+            expiresAt,
+        }) as OutboundMessage
+
+        outbox.value = [...outbox.value, message]
+        postCommand(message)
+        return message
+    }
+
+    function requestRetry(): void {
+        post({ kind: 'retry' })
+    }
+
+    function dispose(): void {
+        if (disposed) return
+        disposed = true
+        lockAbort.abort()
+        releaseLock?.()
+        releaseLock = null
+        isLeader.value = false
+        channel.close()
+    }
+
+    // Demande au leader actuel son historique et son état
+    post({ kind: 'hello', tabId })
+
+    return {
+        isLeader,
+        remoteState,
+        outbox,
+        publishMessage,
+        publishState,
+        resetBacklog,
+        forward,
+        requestRetry,
+        dispose,
+    }
+}
@@ -1,4 +1,10 @@
-import { ref, onUnmounted, type Ref, shallowRef } from 'vue'
+import { ref, reactive, onUnmounted, getCurrentInstance, type Ref, type ComputedRef, shallowRef } from 'vue'
+import { useReconnectStrategy } from './useReconnectStrategy'
+import { useHeartbeat, type HeartbeatOptions, type ConnectionQuality } from './useHeartbeat'
+import { jsonCodec, selectCodec, type WireCodec, type WireFrame } from '@/utils/codecs'
+
+/** Tentatives de reconnexion automatiques avant abandon, par défaut */
+export const DEFAULT_MAX_RECONNECT_ATTEMPTS = 10
 
 /**
  * Interface pour les messages WebSocket génériques
@@ -15,6 +21,40 @@ export interface WebSocketMessage<T = any> {
  */
 export type WebSocketStatus = 'connecting' | 'open' | 'closing' | 'closed' | 'error'
 
+/**
+ * Statut de livraison d'un message sortant
+ * - queued : en attente de connexion
+ * - sent : remis à la socket
+ * - expired : TTL dépassé avant la reconnexion, jamais envoyé
+ * - failed : envoi impossible (erreur socket, file pleine, fermeture définitive)
+ */
+export type DeliveryStatus = 'queued' | 'sent' | 'expired' | 'failed'
+
+/**
+ * Message sortant suivi par la file d'envoi (objet réactif)
+ */
+export interface OutboundMessage {
+    id: string
+    content: WebSocketMessage | string
+    status: DeliveryStatus
+    createdAt: number
+    /** Horodatage (ms) au-delà duquel le message ne doit plus être envoyé */
+    expiresAt: number | null
+    sentAt?: number
+}
+
+/**
+ * Options d'envoi d'un message
+ */
+export interface SendOptions {
+    /** Durée de vie en file d'attente (ms), remplace queueTtl */
+    ttl?: number
+    /** Échéance absolue, prioritaire sur ttl */
+    expiresAt?: number | Date
+    /** false : ne pas mettre en file si la socket n'est pas ouverte */
+    queue?: boolean
+}
+
 /**
  * Interface de retour du composable useWebSocket
  */
@@ -23,9 +63,31 @@ export interface UseWebSocketReturn {
     data: Ref<WebSocketMessage | null>
     error: Ref<Event | null>
     connect: () => Promise<void>
-    send: <T>(data: WebSocketMessage<T> | string) => void
+    send: <T>(data: WebSocketMessage<T> | string, options?: SendOptions) => OutboundMessage
+    /** Messages en attente d'envoi, dans l'ordre */
+    outbox: Ref<OutboundMessage[]>
     close: (code?: number, reason?: string) => void
+    /** Ferme la connexion et libère les ressources : l'instance n'est plus utilisable */
+    dispose: (code?: number, reason?: string) => void
     reconnect: () => Promise<void>
+    /** Nombre de tentatives automatiques depuis la dernière connexion réussie */
+    attempt: Ref<number>
+    /** Horodatage (ms) de la prochaine tentative planifiée, null si aucune */
+    nextRetryAt: Ref<number | null>
+    /** Reflète navigator.onLine (les tentatives sont suspendues hors ligne) */
+    isOnline: Ref<boolean>
+    /** Nombre maximum de tentatives automatiques (configuration effective) */
+    maxReconnectAttempts: number
+    /** Vrai quand maxReconnectAttempts est atteint */
+    reconnectExhausted: ComputedRef<boolean>
+    /** Déclenche immédiatement la tentative planifiée */
+    retryNow: () => void
+    /** Latence aller-retour lissée (ms), null sans heartbeat ou avant le premier pong */
+    latency: Ref<number | null>
+    /** Qualité de connexion déduite du heartbeat */
+    connectionQuality: Ref<ConnectionQuality>
+    /** Nom du codec négocié pour la connexion courante */
+    codec: Ref<string>
 }
 
 /**
@@ -33,10 +95,41 @@ export interface UseWebSocketReturn {
  */
 export interface WebSocketOptions {
     autoReconnect?: boolean
+    /** Délai de base avant la première tentative (ms) */
     reconnectDelay?: number
+    /** Délai maximum entre deux tentatives (ms) */
+    maxReconnectDelay?: number
+    /** Facteur multiplicatif appliqué au délai après chaque échec */
+    reconnectBackoffFactor?: number
+    /** Part aléatoire retirée de chaque délai (0 = aucune, 1 = jitter complet) */
+    reconnectJitter?: number
     maxReconnectAttempts?: number
+    /** Durée de vie par défaut d'un message en file (ms) */
+    queueTtl?: number
+    /** Nombre maximum de messages en file (les plus anciens échouent) */
+    maxQueueSize?: number
+    /** Heartbeat applicatif (ping/pong) : désactivé si absent */
+    heartbeat?: HeartbeatOptions
+    /**
+     * Appelé avant chaque tentative de connexion : le message retourné est envoyé
+     * en premier à l'ouverture. null = identifiants indisponibles (onAuthFailure) ;
+     * une exception compte comme une tentative échouée.
+     */
+    authenticate?: () => Promise<WebSocketMessage | null>
+    /** Codes de fermeture signalant un refus d'authentification (pas de reconnexion) */
+    authFailureCodes?: number[]
+    onAuthFailure?: (event?: CloseEvent) => void
+    /**
+     * Codecs proposés au serveur par ordre de préférence (un sous-protocole chacun).
+     * Absent : JSON, sans sous-protocole annoncé.
+     */
+    codecs?: WireCodec[]
     protocols?: string | string[]
+    /** Fabrique de la socket : par défaut un vrai WebSocket (remplacée par le serveur simulé) */
+    createSocket?: (url: string, protocols?: string[]) => WebSocket
     onReceive?: (data: WebSocketMessage) => void
+    /** Trame illisible pour le codec actif (JSON invalide, texte brut, binaire corrompu...) */
+    onDecodeError?: (error: unknown, frame: WireFrame) => void
     onConnected?: (ws: WebSocket) => void
     onDisconnected?: (event: CloseEvent) => void
     onError?: (event: Event) => void
@@ -58,13 +151,88 @@ export function useWebSocket(url: string, options: WebSocketOptions = {}): UseWe
     // Configuration par défaut
     const config = {
         autoReconnect: true,
-        reconnectDelay: 3000,
-        maxReconnectAttempts: 5,
+        reconnectDelay: 1000,
+        maxReconnectDelay: 30000,
+        reconnectBackoffFactor: 2,
+        reconnectJitter: 0.5,
+        maxReconnectAttempts: DEFAULT_MAX_RECONNECT_ATTEMPTS,
+        queueTtl: 60000,
+        maxQueueSize: 100,
         ...options
     }
 
-    let reconnectAttempts = 0
-    let reconnectTimer: number | null = null
+    // Un vrai WebSocket, sauf transport simulé fourni
+    const createSocket = config.createSocket ?? ((socketUrl: string, protocols?: string[]) => new WebSocket(socketUrl, protocols))
+
+    // File d'envoi : messages émis pendant que la socket n'est pas ouverte
+    const outbox = ref<OutboundMessage[]>([])
+    const expiryTimers = new Map<string, ReturnType<typeof setTimeout>>()
+
+    // Codec actif, choisi à l'ouverture selon le sous-protocole retenu par le serveur
+    const codecs = config.codecs ?? []
+    let activeCodec: WireCodec = codecs[0] ?? jsonCodec
+    const codecName = ref(activeCodec.name)
+
+    // Sous-protocoles annoncés : un par codec, puis ceux fournis explicitement
+    const extraProtocols = config.protocols === undefined ? [] : [config.protocols].flat()
+    const protocols = [...codecs.map(codec => codec.name), ...extraProtocols]
+
+    // Fermeture volontaire : pas de reconnexion automatique
+    let manualClose = false
+
+    // Connexion en cours de préparation (récupération des identifiants)
+    let pendingConnect: Promise<void> | null = null
+
+    // Stratégie de reconnexion (backoff exponentiel + jitter, sensible au réseau)
+    const strategy = useReconnectStrategy({
+        baseDelay: config.reconnectDelay,
+        maxDelay: config.maxReconnectDelay,
+        factor: config.reconnectBackoffFactor,
+        jitter: config.reconnectJitter,
+        maxAttempts: config.maxReconnectAttempts,
+        onRetry: () => {
+            console.log(`[WebSocket] Tentative de reconnexion (${strategy.attempt.value}/${config.maxReconnectAttempts || '∞'})`)
+            connect().catch(console.error)
+        }
+    })
+
+    // Heartbeat : détecte les sockets mortes avant que le navigateur ne s'en rende compte
+    const heartbeat = config.heartbeat
+        ? useHeartbeat({
+            ...config.heartbeat,
+            send: (message) => {
+                socket.value?.send(encode(message))
+            },
+            onDead: () => dropSocket('Heartbeat timeout')
+        })
+        : null
+
+    /**
+     * Sérialise un message avec le codec actif (les chaînes partent telles quelles)
+     */
+    const encode = (content: WebSocketMessage | string) => {
+        return typeof content === 'object' ? activeCodec.encode(content) : content
+    }
+
+    /**
+     * Abandonne la socket courante sans attendre son onclose (qui peut tarder
+     * plusieurs minutes sur mobile) et laisse la stratégie planifier la reconnexion
+     */
+    const dropSocket = (reason: string) => {
+        const ws = socket.value
+        if (!ws) return
+        socket.value = null
+        try {
+            ws.close(4000, reason)
+        } catch (e) {
+            console.error('[WebSocket] Erreur fermeture:', e)
+        }
+        console.warn(`[WebSocket] Socket abandonnée : ${reason}`)
+        heartbeat?.stop()
+        // onclose ignore désormais cette socket : on signale la déconnexion ici
+        config.onDisconnected?.(new CloseEvent('close', { code: 4000, reason, wasClean: false }))
+        updateStatus('closed')
+    }
 
     /**
      * Met à jour l'état de la connexion
@@ -72,51 +240,103 @@ export function useWebSocket(url: string, options: WebSocketOptions = {}): UseWe
     const updateStatus = (newStatus: WebSocketStatus) => {
         status.value = newStatus
         if (newStatus === 'error' || newStatus === 'closed') {
-            if (config.autoReconnect && reconnectAttempts < (config.maxReconnectAttempts || Infinity)) {
-                scheduleReconnect()
+            if (config.autoReconnect && !manualClose) {
+                strategy.schedule()
+            }
+            // Plus aucune tentative prévue : les messages en file ne partiront jamais
+            if (manualClose || !config.autoReconnect || strategy.isExhausted.value) {
+                failQueue()
             }
         }
     }
 
     /**
-     * Planifie une reconnexion automatique
+     * Abandonne toute reconnexion après un refus d'authentification
      */
-    const scheduleReconnect = () => {
-        if (reconnectTimer) return
-        
-        reconnectTimer = window.setTimeout(() => {
-            console.log(`[WebSocket] Tentative de reconnexion (${reconnectAttempts + 1}/${config.maxReconnectAttempts || '∞'})`)
-            reconnect().catch(console.error)
-        }, config.reconnectDelay)
+    const rejectAuth = (event?: CloseEvent) => {
+        console.warn('[WebSocket] Authentification refusée, reconnexion abandonnée')
+        manualClose = true
+        strategy.cancel()
+        updateStatus('closed')
+        config.onAuthFailure?.(event)
     }
 
     /**
      * Initialise la connexion WebSocket.
      */
     const connect = (): Promise<void> => {
-        return new Promise((resolve) => {
-            // Si déjà connecté ou en cours, on ne fait rien (ou on pourrait forcer la fermeture avant)
-            if (socket.value && (socket.value.readyState === WebSocket.OPEN || socket.value.readyState === WebSocket.CONNECTING)) {
-                resolve()
+        // Si déjà connecté ou en cours, on ne fait rien (ou on pourrait forcer la fermeture avant)
+        if (socket.value && (socket.value.readyState === WebSocket.OPEN || socket.value.readyState === WebSocket.CONNECTING)) {
+            return Promise.resolve()
+        }
+        if (pendingConnect) return pendingConnect
+
+        manualClose = false
+        strategy.cancel()
+
+        pendingConnect = establish().finally(() => {
+            pendingConnect = null
+        })
+        return pendingConnect
+    }
+
+    /**
+     * Récupère les identifiants (à chaque tentative) puis ouvre la socket
+     */
+    const establish = async (): Promise<void> => {
+        updateStatus('connecting')
+
+        let authMessage: WebSocketMessage | null = null
+        if (config.authenticate) {
+            try {
+                authMessage = await config.authenticate()
+            } catch (e) {
+                console.error('[WebSocket] Identifiants indisponibles:', e)
+                updateStatus('error')
                 return
             }
 
-            if (reconnectTimer) {
-                clearTimeout(reconnectTimer)
-                reconnectTimer = null
+            // Fermeture demandée pendant la récupération des identifiants
+            if (manualClose) {
+                updateStatus('closed')
+                return
+            }
+            if (!authMessage) {
+                rejectAuth()
+                return
             }
+        }
 
+        await openSocket(authMessage)
+    }
+
+    /**
+     * Ouvre la socket ; la promesse est résolue à l'ouverture ou à l'échec
+     */
+    const openSocket = (authMessage: WebSocketMessage | null): Promise<void> => {
+        return new Promise((resolve) => {
             try {
-                updateStatus('connecting')
-                const ws = new WebSocket(url, config.protocols)
+                const ws = createSocket(url, protocols.length > 0 ? protocols : undefined)
+                ws.binaryType = activeCodec.binaryType
                 socket.value = ws
 
                 ws.onopen = () => {
-                    console.log(`[WebSocket] Connecté à ${url}`)
+                    if (codecs.length > 0) {
+                        activeCodec = selectCodec(codecs, ws.protocol)
+                        ws.binaryType = activeCodec.binaryType
+                        codecName.value = activeCodec.name
+                    }
+                    console.log(`[WebSocket] Connecté à ${url} (${activeCodec.name})`)
+                    // L'authentification part avant tout autre message (file, heartbeat)
+                    if (authMessage) {
+                        ws.send(encode(authMessage))
+                    }
                     updateStatus('open')
                     error.value = null
-                    reconnectAttempts = 0
+                    strategy.reset()
                     config.onConnected?.(ws)
+                    flushQueue()
+                    heartbeat?.start()
                     resolve()
                 }
 
@@ -125,6 +345,8 @@ export function useWebSocket(url: string, options: WebSocketOptions = {}): UseWe
                 }
 
                 ws.onerror = (e: Event) => {
+                    // Ignore les événements d'une socket déjà remplacée
+                    if (socket.value !== ws) return
                     console.error('[WebSocket] Erreur:', e)
                     error.value = e
                     config.onError?.(e)
@@ -132,82 +354,235 @@ export function useWebSocket(url: string, options: WebSocketOptions = {}): UseWe
                 }
 
                 ws.onclose = (event) => {
+                    if (socket.value !== ws) return
                     console.log(`[WebSocket] Déconnecté (code: ${event.code})`)
-                    config.onDisconnected?.(event)
-                    updateStatus('closed')
                     socket.value = null
+                    heartbeat?.stop()
+                    config.onDisconnected?.(event)
+                    if (config.authFailureCodes?.includes(event.code)) {
+                        rejectAuth(event)
+                    } else {
+                        updateStatus('closed')
+                    }
+                    // Échec avant ouverture : libère l'appelant de connect()
+                    resolve()
                 }
 
             } catch (e) {
                 console.error('[WebSocket] Exception exécution:', e)
                 updateStatus('error')
                 // On laisse le mécanisme de retry gérer ça via updateStatus('error')
+                resolve()
             }
         })
     }
 
     /**
-     * Tentative de reconnexion manuelle ou automatique
+     * Reconnexion manuelle : repart de zéro (compteur de tentatives remis à 0)
      */
     const reconnect = async (): Promise<void> => {
         close(1000, 'Reconnecting')
-        reconnectAttempts++
+        strategy.reset()
+        // Laisse une préparation en cours constater la fermeture avant de repartir
+        await pendingConnect
         await connect()
     }
 
     /**
-     * Traite le message entrant (tente de parser du JSON)
+     * Déclenche immédiatement la prochaine tentative (bouton "réessayer")
+     */
+    const retryNow = () => {
+        if (socket.value) return
+        strategy.retryNow()
+    }
+
+    /**
+     * Traite le message entrant avec le codec actif
      */
-    const handleMessage = (rawData: string) => {
+    const handleMessage = (frame: WireFrame) => {
+        let parsed: unknown
         try {
-            const parsed: WebSocketMessage = JSON.parse(rawData)
-            data.value = parsed
-            config.onReceive?.(parsed)
+            parsed = activeCodec.decode(frame)
         } catch (e) {
-            // Si ce n'est pas du JSON, on l'emballe dans un format générique si besoin,
-            // ou on ignore / log. Ici on supporte le texte brut.
-            const textMsg = { type: 'text', payload: rawData }
-            data.value = textMsg
-            config.onReceive?.(textMsg)
+            reportDecodeError(e, frame)
+            return
+        }
+        if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+            reportDecodeError(new TypeError('La trame ne contient pas un objet'), frame)
+            return
         }
+
+        const message = parsed as WebSocketMessage
+        // Les pongs sont consommés par le heartbeat
+        if (heartbeat?.handleMessage(message)) return
+        data.value = message
+        config.onReceive?.(message)
     }
 
     /**
-     * Envoie un message au serveur.
+     * Signale une trame illisible sans interrompre la connexion
      */
-    const send = <T>(content: WebSocketMessage<T> | string) => {
-        if (!socket.value || socket.value.readyState !== WebSocket.OPEN) {
-            console.warn('[WebSocket] Envoi impossible : non connecté.')
-            return
-        }
+    const reportDecodeError = (e: unknown, frame: WireFrame) => {
+        console.warn(`[WebSocket] Trame illisible (${activeCodec.name}):`, e)
+        config.onDecodeError?.(e, frame)
+    }
+
+    /**
+     * Écrit directement sur la socket ouverte
+     */
+    const writeToSocket = (message: OutboundMessage): boolean => {
+        if (!socket.value || socket.value.readyState !== WebSocket.OPEN) return false
         try {
-            const payload = typeof content === 'object' ? JSON.stringify(content) : content
-            socket.value.send(payload)
+            socket.value.send(encode(message.content))
+            message.status = 'sent'
+            message.sentAt = Date.now()
+            return true
         } catch (e) {
             console.error('[WebSocket] Erreur envoi:', e)
+            message.status = 'failed'
+            return true
+        }
+    }
+
+    /**
+     * Retire un message de la file et nettoie son timer d'expiration
+     */
+    const dequeue = (message: OutboundMessage) => {
+        const timer = expiryTimers.get(message.id)
+        if (timer) {
+            clearTimeout(timer)
+            expiryTimers.delete(message.id)
+        }
+        outbox.value = outbox.value.filter(m => m.id !== message.id)
+    }
+
+    /**
+     * Met un message en file jusqu'à la prochaine ouverture
+     */
+    const enqueue = (message: OutboundMessage) => {
+        if (outbox.value.length >= config.maxQueueSize) {
+            const oldest = outbox.value[0]
+            if (oldest) {
+                console.warn('[WebSocket] File pleine, message abandonné:', oldest.id)
+                oldest.status = 'failed'
+                dequeue(oldest)
+            }
+        }
+
+        message.status = 'queued'
+        outbox.value = [...outbox.value, message]
+
+        if (message.expiresAt !== null) {
+            expiryTimers.set(message.id, setTimeout(() => {
+                message.status = 'expired'
+                dequeue(message)
+            }, Math.max(0, message.expiresAt - Date.now())))
+        }
+    }
+
+    /**
+     * Envoie les messages en file, dans l'ordre, en ignorant ceux qui ont expiré
+     */
+    const flushQueue = () => {
+        const pending = [...outbox.value]
+        if (pending.length === 0) return
+
+        console.log(`[WebSocket] Envoi de ${pending.length} message(s) en attente`)
+        for (const message of pending) {
+            if (message.expiresAt !== null && message.expiresAt <= Date.now()) {
+                message.status = 'expired'
+                dequeue(message)
+                continue
+            }
+            if (!writeToSocket(message)) return
+            dequeue(message)
+        }
+    }
+
+    /**
+     * Marque tous les messages en file comme échoués
+     */
+    const failQueue = () => {
+        for (const message of [...outbox.value]) {
+            message.status = 'failed'
+            dequeue(message)
+        }
+    }
+
+    /**
+     * Envoie un message au serveur, ou le met en file si la socket n'est pas ouverte.
+     * Retourne un objet réactif dont le statut suit la livraison.
+     */
+    const send = <T>(content: WebSocketMessage<T> | string, sendOptions: SendOptions = {}): OutboundMessage => {
+        const createdAt = Date.now()
+        let expiresAt: number | null = null
+        if (sendOptions.expiresAt !== undefined) {
+            expiresAt = sendOptions.expiresAt instanceof Date ? sendOptions.expiresAt.getTime() : sendOptions.expiresAt
+        } else if ((sendOptions.ttl ?? config.queueTtl) > 0) {
+            expiresAt = createdAt + (sendOptions.ttl ?? config.queueTtl)
+        }
+
+        const message = reactive<OutboundMessage>({
+            id: crypto.randomUUID(),
+            content,
+            status: 'queued',
+            createdAt,
+            expiresAt,
+        }) as OutboundMessage
+
+        if (expiresAt !== null && expiresAt <= createdAt) {
+            message.status = 'expired'
+            return message
+        }
+
+        // Les messages déjà en file passent en premier pour conserver l'ordre
+        if (outbox.value.length === 0 && writeToSocket(message)) {
+            return message
         }
+
+        if (sendOptions.queue === false || manualClose) {
+            console.warn('[WebSocket] Envoi impossible : non connecté.')
+            message.status = 'failed'
+            return message
+        }
+
+        enqueue(message)
+        return message
     }
 
     /**
      * Ferme manuellement la connexion
      */
     const close = (code: number = 1000, reason: string = 'Normal closure') => {
-        if (reconnectTimer) {
-            clearTimeout(reconnectTimer)
-            reconnectTimer = null
-        }
-        
+        manualClose = true
+        strategy.cancel()
+        heartbeat?.stop()
+
         if (socket.value) {
-            // Éviter de déclencher onclose en boucle si on ferme manuellement ? 
-            // Généralement on veut que onclose soit appelé pour mettre à jour le state.
+            // onclose mettra l'état à jour ; manualClose empêche la reconnexion
             socket.value.close(code, reason)
+        } else if (!pendingConnect) {
+            // Pas de socket (attente de reconnexion) : aucun onclose ne viendra,
+            // on fige l'état et on fait échouer la file ici
+            updateStatus('closed')
         }
     }
 
-    // Nettoyage automatique
-    onUnmounted(() => {
-        close(1000, 'Component unmounted')
-    })
+    /**
+     * Ferme la connexion et libère définitivement les ressources
+     * (écouteurs réseau de la stratégie, heartbeat)
+     */
+    const dispose = (code: number = 1000, reason: string = 'Disposed') => {
+        close(code, reason)
+        heartbeat?.stop()
+        strategy.dispose()
+    }
+
+    // Nettoyage automatique (uniquement si appelé dans un setup de composant) ;
+    // sinon l'appelant doit appeler dispose()
+    if (getCurrentInstance()) {
+        onUnmounted(() => dispose(1000, 'Component unmounted'))
+    }
 
     return {
         status,
@@ -215,7 +590,18 @@ export function useWebSocket(url: string, options: WebSocketOptions = {}): UseWe
         error,
         connect,
         send,
+        outbox,
         close,
-        reconnect
+        dispose,
+        reconnect,
+        attempt: strategy.attempt,
+        nextRetryAt: strategy.nextRetryAt,
+        isOnline: strategy.isOnline,
+        maxReconnectAttempts: config.maxReconnectAttempts,
+        reconnectExhausted: strategy.isExhausted,
+        retryNow,
+        latency: heartbeat?.latency ?? ref(null),
+        connectionQuality: heartbeat?.quality ?? ref<ConnectionQuality>('unknown'),
+        codec: codecName
     }
 }
@@ -0,0 +1,39 @@
+/**
+ * Event middleware pipeline
+ */
+
+import type { Event as GameEvent } from '@/types/events'
+import type { EventDirection, EventMiddleware, MiddlewareContext } from './types'
+
+export type { EventDirection, EventMiddleware, MiddlewareContext } from './types'
+export { createLoggerMiddleware, type LogLevel, type LoggerMiddlewareOptions } from './logger'
+export { createRedactionMiddleware, redactEvent, type RedactionOptions } from './redact'
+export { createThrottleMiddleware, isTimerTick, type ThrottleMiddlewareOptions } from './throttle'
+export { createMetricsMiddleware, type EventCounters, type MetricsMiddleware } from './metrics'
+export { createTailMiddleware, type TailEntry, type TailMiddleware } from './tail'
+
+/**
+ * Run an event through the chain.
+ * Returns the event that came out of the last middleware, or null if one dropped it.
+ */
+export function runMiddleware(
+  middlewares: EventMiddleware[],
+  event: GameEvent<unknown>,
+  direction: EventDirection
+): GameEvent<unknown> | null {
+  const context: MiddlewareContext = { direction, delivered: false }
+  let result: GameEvent<unknown> | null = null
+
+  const step = (index: number, current: GameEvent<unknown>): void => {
+    const middleware = middlewares[index]
+    if (!middleware) {
+      context.delivered = true
+      result = current
+      return
+    }
+    middleware(current, (nextEvent) => step(index + 1, nextEvent), context)
+  }
+
+  step(0, event)
+  return result
+}
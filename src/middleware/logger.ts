@@ -0,0 +1,57 @@
+/**
+ * Structured logging middleware
+ *
+ * One console line per event, at a level chosen from the event kind.
+ * The threshold comes from VITE_LOG_LEVEL (debug in dev, warn otherwise).
+ */
+
+import type { Event as GameEvent } from '@/types/events'
+import { EventTypeError, EventTypeTimer } from '@/types/events'
+import type { EventMiddleware } from './types'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent'
+
+export interface LoggerMiddlewareOptions {
+  /** Minimum level printed */
+  level?: LogLevel
+  /** Level of a given event (defaults: timer ticks debug, errors warn, the rest info) */
+  levelOf?: (event: GameEvent<unknown>) => Exclude<LogLevel, 'silent'>
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+  silent: 4,
+}
+
+function defaultLevel(): LogLevel {
+  const configured = import.meta.env.VITE_LOG_LEVEL as string | undefined
+  if (configured && configured in LEVEL_ORDER) return configured as LogLevel
+  return import.meta.env.DEV ? 'debug' : 'warn'
+}
+
+function defaultLevelOf(event: GameEvent<unknown>): Exclude<LogLevel, 'silent'> {
+  if (event.type === EventTypeTimer) return 'debug'
+  if (event.type === EventTypeError) return 'warn'
+  return 'info'
+}
+
+/**
+ * Create a logging middleware; place it last so it logs what handlers actually receive
+ */
+export function createLoggerMiddleware(options: LoggerMiddlewareOptions = {}): EventMiddleware {
+  const { level = defaultLevel(), levelOf = defaultLevelOf } = options
+  const threshold = LEVEL_ORDER[level]
+
+  return (event, next, context) => {
+    const eventLevel = levelOf(event)
+    if (LEVEL_ORDER[eventLevel] >= threshold) {
+      const arrow = context.direction === 'inbound' ? '←' : '→'
+      const seq = event.seq !== undefined ? ` #${event.seq}` : ''
+      console[eventLevel](`[Event] ${arrow} ${event.channel}/${event.type}${seq}`, context.printable ?? event)
+    }
+    next(event)
+  }
+}
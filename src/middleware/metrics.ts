@@ -0,0 +1,52 @@
+/**
+ * Metrics middleware
+ *
+ * Counts events per channel/type and direction, and how many were dropped by the
+ * middlewares placed after it. Place it first in the chain to see every event.
+ */
+
+import { ref, type Ref } from 'vue'
+import type { EventMiddleware } from './types'
+
+export interface EventCounters {
+  inbound: number
+  outbound: number
+  /** Events a later middleware did not pass on */
+  dropped: number
+}
+
+export interface MetricsMiddleware {
+  middleware: EventMiddleware
+  /** Counters keyed by `channel/type` */
+  counters: Ref<Record<string, EventCounters>>
+  reset: () => void
+}
+
+/**
+ * Create a metrics middleware and its counters
+ */
+export function createMetricsMiddleware(): MetricsMiddleware {
+  const counters = ref<Record<string, EventCounters>>({})
+
+  const middleware: EventMiddleware = (event, next, context) => {
+    const key = `${event.channel}/${event.type}`
+    if (!counters.value[key]) {
+      counters.value[key] = { inbound: 0, outbound: 0, dropped: 0 }
+    }
+    // Read back through the reactive proxy so updates are tracked
+    const entry = counters.value[key]
+    entry[context.direction]++
+
+    // next is called synchronously, so the outcome is known when the call returns
+    next(event)
+    if (!context.delivered) entry.dropped++
+  }
+
+  return {
+    middleware,
+    counters,
+    reset: () => {
+      counters.value = {}
+    },
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Redaction middleware
+ *
+ * Prepares the copy of each event that logs and recordings get to see:
+ * credentials are masked, and so are the roles of the other players
+ * (they must not leak through a shared console or a bug report).
+ */
+
+import type { Event as GameEvent } from '@/types/events'
+import type { PlayerID } from '@/types/player'
+import type { EventMiddleware } from './types'
+
+export interface RedactionOptions {
+  /** The player whose role may stay visible */
+  currentPlayerId: () => PlayerID | null
+}
+
+const REDACTED = '[redacted]'
+
+// Keys holding credentials, whatever their nesting
+const SENSITIVE_KEY = /token|secret|password|authorization/i
+
+function redactValue(value: unknown, currentPlayerId: PlayerID | null): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => redactValue(item, currentPlayerId))
+  }
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+
+  const source = value as Record<string, unknown>
+  // A player object ({ id, role, ... }) only keeps the role for the current player
+  const hidesRole = typeof source.id === 'string' && 'role' in source && source.id !== currentPlayerId
+
+  const result: Record<string, unknown> = {}
+  for (const [key, item] of Object.entries(source)) {
+    if (SENSITIVE_KEY.test(key) || (hidesRole && key === 'role' && item != null)) {
+      result[key] = REDACTED
+    } else {
+      result[key] = redactValue(item, currentPlayerId)
+    }
+  }
+  return result
+}
+
+/**
+ * Return a redacted deep copy of an event
+ */
+export function redactEvent(event: GameEvent<unknown>, currentPlayerId: PlayerID | null): GameEvent<unknown> {
+  return redactValue(event, currentPlayerId) as GameEvent<unknown>
+}
+
+/**
+ * Create a redaction middleware; the event passed to `next` is left untouched,
+ * only `context.printable` is set for the middlewares downstream
+ */
+export function createRedactionMiddleware(options: RedactionOptions): EventMiddleware {
+  return (event, next, context) => {
+    context.printable = redactEvent(event, options.currentPlayerId())
+    next(event)
+  }
+}
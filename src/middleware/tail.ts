@@ -0,0 +1,46 @@
+/**
+ * Tail middleware
+ *
+ * Keeps the last events seen, received and sent, for the developer console.
+ * Place it after the redaction middleware: it keeps the redacted copy.
+ */
+
+import { shallowRef, type Ref } from 'vue'
+import type { Event as GameEvent } from '@/types/events'
+import type { EventDirection, EventMiddleware } from './types'
+
+export interface TailEntry {
+  id: number
+  at: number
+  direction: EventDirection
+  event: GameEvent<unknown>
+}
+
+export interface TailMiddleware {
+  middleware: EventMiddleware
+  /** Most recent last */
+  entries: Ref<TailEntry[]>
+  clear: () => void
+}
+
+/**
+ * Create a tail middleware keeping up to `max` events
+ */
+export function createTailMiddleware(max = 500): TailMiddleware {
+  const entries = shallowRef<TailEntry[]>([])
+  let nextId = 0
+
+  const middleware: EventMiddleware = (event, next, context) => {
+    const entry: TailEntry = { id: nextId++, at: Date.now(), direction: context.direction, event: context.printable ?? event }
+    entries.value = [...entries.value.slice(-(max - 1)), entry]
+    next(event)
+  }
+
+  return {
+    middleware,
+    entries,
+    clear: () => {
+      entries.value = []
+    },
+  }
+}
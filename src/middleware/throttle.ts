@@ -0,0 +1,52 @@
+/**
+ * Throttling middleware
+ *
+ * The server sends a timer tick every second. Handlers only need a few of them to
+ * keep the countdown in sync (the UI counts down locally), so extra ticks are dropped.
+ * Other timer statuses (started, expired, skipped) always go through.
+ */
+
+import type { Event as GameEvent, TimerEventData } from '@/types/events'
+import { EventChannelTimer, EventTypeTimer } from '@/types/events'
+import type { EventMiddleware } from './types'
+
+export interface ThrottleMiddlewareOptions {
+  /** Minimum delay between two ticks let through (ms) */
+  interval?: number
+  /** Events subject to throttling (defaults to inbound timer ticks) */
+  match?: (event: GameEvent<unknown>) => boolean
+}
+
+/**
+ * Check whether an event is a timer tick
+ */
+export function isTimerTick(event: GameEvent<unknown>): boolean {
+  return event.channel === EventChannelTimer
+    && event.type === EventTypeTimer
+    && (event.data as TimerEventData | undefined)?.status === 'tick'
+}
+
+/**
+ * Create a throttling middleware
+ */
+export function createThrottleMiddleware(options: ThrottleMiddlewareOptions = {}): EventMiddleware {
+  const { interval = 5000, match = isTimerTick } = options
+
+  // Last event let through, by channel/type
+  const lastPassed = new Map<string, number>()
+
+  return (event, next, context) => {
+    if (context.direction !== 'inbound' || !match(event)) {
+      next(event)
+      return
+    }
+
+    const key = `${event.channel}/${event.type}`
+    const now = Date.now()
+    const last = lastPassed.get(key)
+    if (last !== undefined && now - last < interval) return
+
+    lastPassed.set(key, now)
+    next(event)
+  }
+}
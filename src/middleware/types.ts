@@ -0,0 +1,29 @@
+/**
+ * Event middleware contract
+ *
+ * Middlewares wrap inbound dispatch and outbound sends. Each one receives the
+ * event and a `next` function: call it (with the same or a transformed event)
+ * to continue, or do not call it to drop the event. `next` must be called
+ * synchronously, since sends return their delivery status right away.
+ */
+
+import type { Event as GameEvent } from '@/types/events'
+
+export type EventDirection = 'inbound' | 'outbound'
+
+export interface MiddlewareContext {
+  direction: EventDirection
+  /**
+   * Copy of the event safe to print or store (set by the redaction middleware);
+   * the event itself is left untouched for the handlers
+   */
+  printable?: GameEvent<unknown>
+  /** Set once the event went through the whole chain */
+  delivered: boolean
+}
+
+export type EventMiddleware = (
+  event: GameEvent<unknown>,
+  next: (event: GameEvent<unknown>) => void,
+  context: MiddlewareContext
+) => void
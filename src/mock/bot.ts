@@ -0,0 +1,336 @@
+/**
+ * Bot player
+ *
+ * Sits at a mock server seat like any player: it reads the events the server sends,
+ * keeps track of what it has seen, answers its actions through its role's strategy
+ * after a human-like delay, and posts canned chat lines now and then.
+ */
+
+import type { ActionCreatedEventData, ActionExpiredEventData, ActionID } from '@/types/actions'
+import type {
+  ChatMessageEvent,
+  DayEventData,
+  DeathEventData,
+  Event as GameEvent,
+  EventChannel,
+  EventType,
+  GameDataEventData,
+  RoleRevealEventData,
+  SeerRevealEventData,
+  VoteEventData,
+} from '@/types/events'
+import {
+  EventChannelAction,
+  EventChannelGameEvent,
+  EventTypeActionCreated,
+  EventTypeActionExpired,
+  EventTypeActionResponse,
+  EventTypeChatMessage,
+  EventTypeDay,
+  EventTypeDeath,
+  EventTypeGameData,
+  EventTypeNight,
+  EventTypeRoleReveal,
+  EventTypeSeerReveal,
+  EventTypeVote,
+  EventTypeWin,
+} from '@/types/events'
+import type { GamePhase } from '@/types/game'
+import type { PlayerID } from '@/types/player'
+import type { ChatChannel } from '@/types/ui'
+import type { MockGameServer, MockPlayer, MockSeat } from './server'
+import { BOT_DIFFICULTIES, BOT_STRATEGIES, SHERIFF_STRATEGY, type BotContext, type BotDifficulty, type BotKnowledge } from './strategies'
+import { chatLine, type ChatMoment } from './chatLines'
+
+export interface BotOptions {
+  player: MockPlayer
+  difficulty?: BotDifficulty
+  random?: () => number
+}
+
+export interface MockBot {
+  player: MockPlayer
+  difficulty: BotDifficulty
+  /** Stop every pending decision and leave the seat */
+  dispose: () => void
+}
+
+// Minimum time between two lines of the same bot (ms)
+const CHAT_COOLDOWN = 8000
+
+// Suspicion moved by what the village votes reveal
+const ACCUSED_ME = 2
+const VOTED_OUT_INNOCENT = 1.5
+const VOTED_OUT_WEREWOLF = -2
+const NAMED_ME = 1
+
+/**
+ * Seat a bot at a mock game
+ */
+export function createBot(server: MockGameServer, options: BotOptions): MockBot {
+  const { player, difficulty = 'normal', random = Math.random } = options
+  const profile = BOT_DIFFICULTIES[difficulty]
+
+  const knowledge: BotKnowledge = {
+    self: player.id,
+    role: null,
+    day: 0,
+    usernames: new Map(),
+    alive: new Set(),
+    roles: new Map(),
+    suspicion: new Map(),
+    votes: new Map(),
+    packTarget: null,
+  }
+
+  let phase: GamePhase = 'start'
+  let lastChatAt = 0
+  // Voters of the last village vote, judged once the eliminated player's role is known
+  let elimination: { target: PlayerID, voters: PlayerID[] } | null = null
+
+  const timers = new Set<ReturnType<typeof setTimeout>>()
+  const actionTimers = new Map<ActionID, ReturnType<typeof setTimeout>>()
+
+  // ========================
+  // Outgoing
+  // ========================
+
+  let seat: MockSeat | null = null
+
+  function send<T>(channel: EventChannel, type: EventType, data: T): void {
+    seat?.receive({ channel, type, data })
+  }
+
+  function later(delay: number, callback: () => void): ReturnType<typeof setTimeout> {
+    const handle = setTimeout(() => {
+      timers.delete(handle)
+      callback()
+    }, delay)
+    timers.add(handle)
+    return handle
+  }
+
+  function canTalk(channel: ChatChannel): boolean {
+    if (!knowledge.alive.has(player.id)) return false
+    if (channel === 'werewolf') return knowledge.role === 'werewolf' && phase === 'night'
+    return phase === 'day' || phase === 'vote'
+  }
+
+  function say(channel: ChatChannel, moment: ChatMoment, name?: string, force = false): void {
+    const now = Date.now()
+    if (!canTalk(channel) || (!force && now - lastChatAt < CHAT_COOLDOWN)) return
+    lastChatAt = now
+    send<ChatMessageEvent>(EventChannelGameEvent, EventTypeChatMessage, {
+      playerID: '',
+      nickname: '',
+      message: chatLine(moment, random, name),
+      channel,
+    })
+  }
+
+  /** Talk a few seconds later, if the bot feels like it */
+  function maybeSay(channel: ChatChannel, moment: ChatMoment, name?: string): void {
+    if (random() >= profile.chattiness) return
+    later(1000 + random() * 4000, () => say(channel, moment, name))
+  }
+
+  const nameOf = (playerId: PlayerID) => knowledge.usernames.get(playerId) ?? playerId
+
+  // ========================
+  // Actions
+  // ========================
+
+  const context: BotContext = {
+    knowledge,
+    profile,
+    random,
+    proposeVictim: (target) => {
+      if (knowledge.packTarget) return
+      knowledge.packTarget = target
+      say('werewolf', 'packPropose', nameOf(target), true)
+    },
+  }
+
+  function answer(action: ActionCreatedEventData): void {
+    const strategy = knowledge.role ? BOT_STRATEGIES[knowledge.role] : null
+    const packTarget = knowledge.packTarget
+    const response = strategy?.decide(action, context) ?? SHERIFF_STRATEGY.decide(action, context)
+    if (!response) return
+
+    send(EventChannelAction, EventTypeActionResponse, { actionId: action.actionId, response })
+
+    if (action.type === 'werewolf_vote' && packTarget && 'targetId' in response && response.targetId === packTarget) {
+      maybeSay('werewolf', 'packAgree', nameOf(packTarget))
+    }
+    if (action.type === 'village_vote' && 'targetId' in response && response.targetId) {
+      maybeSay('village', 'accuse', nameOf(response.targetId))
+    }
+  }
+
+  function schedule(action: ActionCreatedEventData): void {
+    const [min, max] = profile.thinking
+    const delay = action.timeout * 1000 * (min + random() * (max - min))
+    actionTimers.set(action.actionId, later(delay, () => {
+      actionTimers.delete(action.actionId)
+      answer(action)
+    }))
+  }
+
+  function cancel(actionId: ActionID): void {
+    const handle = actionTimers.get(actionId)
+    if (!handle) return
+    clearTimeout(handle)
+    timers.delete(handle)
+    actionTimers.delete(actionId)
+  }
+
+  // ========================
+  // Knowledge
+  // ========================
+
+  function suspect(playerId: PlayerID, amount: number): void {
+    if (playerId === player.id) return
+    knowledge.suspicion.set(playerId, (knowledge.suspicion.get(playerId) ?? 0) + amount)
+  }
+
+  function learnGameData(data: GameDataEventData): void {
+    phase = data.phase
+    knowledge.day = data.day
+    knowledge.alive.clear()
+    for (const p of data.players) {
+      knowledge.usernames.set(p.id, p.username)
+      if (p.alive) knowledge.alive.add(p.id)
+      // Visible roles: its own, the pack (for a werewolf), the dead
+      if (p.role) knowledge.roles.set(p.id, p.role)
+    }
+  }
+
+  function learnVote(data: VoteEventData): void {
+    switch (data.type) {
+      case 'start':
+        knowledge.votes.clear()
+        break
+      case 'player':
+        if (!data.player) break
+        if (data.target) {
+          knowledge.votes.set(data.player, data.target)
+        } else {
+          knowledge.votes.delete(data.player)
+        }
+        if (data.target === player.id && data.player !== player.id) {
+          suspect(data.player, ACCUSED_ME)
+          maybeSay('village', 'defend', nameOf(data.player))
+        }
+        break
+      case 'end':
+        elimination = data.target
+          ? { target: data.target, voters: [...knowledge.votes].filter(([, t]) => t === data.target).map(([voter]) => voter) }
+          : null
+        break
+    }
+  }
+
+  function learnDeath(data: DeathEventData): void {
+    knowledge.roles.set(data.victim, data.role)
+    knowledge.alive.delete(data.victim)
+
+    // Those who sent a werewolf to death were right, the others were wrong or lying
+    if (elimination?.target === data.victim) {
+      const amount = data.role === 'werewolf' ? VOTED_OUT_WEREWOLF : VOTED_OUT_INNOCENT
+      elimination.voters.forEach((voter) => suspect(voter, amount))
+      elimination = null
+    }
+    if (data.victim !== player.id) maybeSay('village', 'death', nameOf(data.victim))
+  }
+
+  function learnChat(data: ChatMessageEvent): void {
+    if (data.playerID === player.id) return
+    const message = data.message.toLowerCase()
+    const named = [...knowledge.alive].filter((id) => message.includes(nameOf(id).toLowerCase()))
+
+    if (data.channel === 'werewolf') {
+      // A packmate named tonight's victim
+      const victim = named.find((id) => knowledge.roles.get(id) !== 'werewolf')
+      if (victim && !knowledge.packTarget) knowledge.packTarget = victim
+      return
+    }
+    if (named.includes(player.id)) suspect(data.playerID, NAMED_ME)
+  }
+
+  function startDay(data: DayEventData): void {
+    knowledge.day = data.day
+    phase = 'day'
+    knowledge.packTarget = null
+
+    // A seer who found a werewolf may speak up
+    const wolf = knowledge.role === 'seer'
+      ? [...knowledge.alive].find((id) => knowledge.roles.get(id) === 'werewolf')
+      : undefined
+    if (wolf && random() < profile.insight) {
+      later(2000 + random() * 4000, () => say('village', 'accuse', nameOf(wolf)))
+    } else {
+      maybeSay('village', 'dayStart')
+    }
+  }
+
+  function deliver(event: GameEvent<unknown>): void {
+    switch (event.type) {
+      case EventTypeGameData:
+        learnGameData(event.data as GameDataEventData)
+        break
+      case EventTypeRoleReveal:
+        knowledge.role = (event.data as RoleRevealEventData).role
+        knowledge.roles.set(player.id, knowledge.role)
+        break
+      case EventTypeNight:
+        phase = 'night'
+        knowledge.packTarget = null
+        break
+      case EventTypeDay:
+        startDay(event.data as DayEventData)
+        break
+      case EventTypeVote:
+        phase = 'vote'
+        learnVote(event.data as VoteEventData)
+        break
+      case EventTypeDeath:
+        learnDeath(event.data as DeathEventData)
+        break
+      case EventTypeSeerReveal: {
+        const { targetId, roleType } = event.data as SeerRevealEventData
+        knowledge.roles.set(targetId, roleType)
+        break
+      }
+      case EventTypeChatMessage:
+        learnChat(event.data as ChatMessageEvent)
+        break
+      case EventTypeActionCreated:
+        schedule(event.data as ActionCreatedEventData)
+        break
+      case EventTypeActionExpired:
+        cancel((event.data as ActionExpiredEventData).actionId)
+        break
+      case EventTypeWin:
+        clearTimers()
+        break
+    }
+  }
+
+  function clearTimers(): void {
+    timers.forEach(clearTimeout)
+    timers.clear()
+    actionTimers.clear()
+  }
+
+  seat = server.join(player, deliver)
+
+  return {
+    player,
+    difficulty,
+    dispose: () => {
+      clearTimers()
+      seat?.leave()
+      seat = null
+    },
+  }
+}
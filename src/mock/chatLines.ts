@@ -0,0 +1,49 @@
+/**
+ * Canned chat lines posted by bots
+ *
+ * `{name}` is replaced by the username the line is about.
+ */
+
+export type ChatMoment = 'dayStart' | 'death' | 'accuse' | 'defend' | 'packPropose' | 'packAgree'
+
+export const CHAT_LINES: Record<ChatMoment, string[]> = {
+  dayStart: [
+    'Bonjour tout le monde...',
+    'Encore une nuit agitée.',
+    'Quelqu\'un a entendu quelque chose cette nuit ?',
+    'Restons calmes et réfléchissons.',
+  ],
+  death: [
+    'Paix à son âme, {name}...',
+    'Je ne m\'attendais pas à perdre {name}.',
+    '{name} va nous manquer.',
+  ],
+  accuse: [
+    '{name}, tu es bien silencieux...',
+    'Je trouve {name} louche.',
+    'Désolé {name}, je vote contre toi.',
+    'Mon instinct me dit {name}.',
+  ],
+  defend: [
+    'Ce n\'est pas moi, je vous jure !',
+    'Tu fais erreur, {name} !',
+    'Pourquoi moi, {name} ?',
+  ],
+  packPropose: [
+    'On mange {name} cette nuit ?',
+    'Je propose {name}.',
+  ],
+  packAgree: [
+    'Va pour {name}.',
+    'Ok pour {name}.',
+  ],
+}
+
+/**
+ * Pick a line for a moment
+ */
+export function chatLine(moment: ChatMoment, random: () => number, name = ''): string {
+  const lines = CHAT_LINES[moment]
+  const line = lines[Math.floor(random() * lines.length)]!
+  return line.replace(/\{name\}/g, name)
+}
@@ -0,0 +1,12 @@
+/**
+ * Mock server switch and practice-game bounds
+ *
+ * The only mock module imported statically: the server, bots and strategies are loaded
+ * with `await import('@/mock')` behind this flag, so they stay out of production bundles.
+ */
+
+export const isMockServerEnabled = import.meta.env.VITE_MOCK_SERVER === 'true'
+
+// Bots besides the local player, up to a 24-player game
+export const MIN_BOTS = 3
+export const MAX_BOTS = 23
@@ -0,0 +1,83 @@
+/**
+ * Mock server entry point
+ *
+ * VITE_MOCK_SERVER=true plays every game against an in-browser server: no backend,
+ * no OIDC provider. The human is joined by bots so a practice game can start.
+ */
+
+import type { GameID } from '@/types/game'
+import { createMockGameServer, type MockGameServer, type MockPlayer } from './server'
+import { MockWebSocket } from './socket'
+import { createBot } from './bot'
+import type { BotDifficulty } from './strategies'
+import { MAX_BOTS, MIN_BOTS } from './config'
+
+export { createMockGameServer, defaultSettings } from './server'
+export type { MockDeliver, MockGameServer, MockGameServerOptions, MockPlayer, MockSeat, MockServerTimings } from './server'
+export { MockWebSocket, type MockSocketOptions } from './socket'
+export { createBot, type BotOptions, type MockBot } from './bot'
+export { BOT_DIFFICULTIES, BOT_STRATEGIES } from './strategies'
+export type { BotContext, BotDifficulty, BotKnowledge, BotStrategy, DifficultyProfile } from './strategies'
+
+export { isMockServerEnabled, MIN_BOTS, MAX_BOTS } from './config'
+
+/** The local player (host of every mock game) */
+export const MOCK_PLAYER: MockPlayer = { id: 'mock-player', username: 'Moi' }
+
+// Bot names, one per seat up to MAX_BOTS
+const BOT_NAMES = [
+  'Alice', 'Bastien', 'Chloé', 'Damien', 'Élise', 'Fabien', 'Gaëlle', 'Hugo',
+  'Inès', 'Julien', 'Karima', 'Léo', 'Manon', 'Nicolas', 'Océane', 'Paul',
+  'Quentin', 'Rose', 'Samir', 'Thaïs', 'Ugo', 'Violette', 'William',
+]
+
+export interface PracticeGameOptions {
+  /** Seats filled by bots, besides the local player */
+  botCount: number
+  difficulty: BotDifficulty
+}
+
+// Used when a mock game is opened without having been created (e.g. a page reload)
+const DEFAULT_PRACTICE: PracticeGameOptions = { botCount: 5, difficulty: 'normal' }
+
+// Mock games live as long as the page
+const servers = new Map<GameID, MockGameServer>()
+
+function openPracticeGame(gameId: GameID, options: PracticeGameOptions): MockGameServer {
+  const server = createMockGameServer({
+    gameId,
+    hostId: MOCK_PLAYER.id,
+    timings: { nightTurn: 20, day: 30, vote: 30 },
+  })
+  const botCount = Math.min(MAX_BOTS, Math.max(MIN_BOTS, options.botCount))
+  BOT_NAMES.slice(0, botCount).forEach((username, i) => {
+    createBot(server, { player: { id: `mock-bot-${i + 1}`, username }, difficulty: options.difficulty })
+  })
+  servers.set(gameId, server)
+  return server
+}
+
+/**
+ * Get the mock server of a game (opened with default bots if unknown)
+ */
+export function getMockGameServer(gameId: GameID): MockGameServer {
+  return servers.get(gameId) ?? openPracticeGame(gameId, DEFAULT_PRACTICE)
+}
+
+/**
+ * Open a practice game against bots (replaces the creation API call)
+ */
+export function createPracticeGame(options: PracticeGameOptions = DEFAULT_PRACTICE): GameID {
+  const gameId: GameID = `mock-${crypto.randomUUID().substring(0, 8)}`
+  openPracticeGame(gameId, options)
+  return gameId
+}
+
+/**
+ * Socket factory for useWebSocket: connects the player to the game's mock server
+ */
+export function createMockSocketFactory(gameId: GameID, player: MockPlayer = MOCK_PLAYER) {
+  return (url: string): WebSocket => {
+    return new MockWebSocket(url, { server: getMockGameServer(gameId), player }) as unknown as WebSocket
+  }
+}
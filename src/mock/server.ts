@@ -0,0 +1,1036 @@
+/**
+ * Mock game server
+ *
+ * In-browser implementation of the Shamus protocol (src/types/events.ts and
+ * src/types/actions.ts): lobby settings, start_game, role reveal, night turns driven
+ * by the action system, sheriff election, day discussion, village vote (the sheriff's
+ * vote counts double and breaks ties), deaths (lovers die together, the hunter takes a
+ * last shot, the sheriff names a successor), timers and win detection.
+ *
+ * Players connect through seats. The human plays through a MockWebSocket (./socket);
+ * other seats may stay idle (their actions expire) or be driven by code.
+ */
+
+import {
+  ActionResponseEventDataSchema,
+  ChatMessageEventSchema,
+  GameSettingsEventDataSchema,
+  ResyncEventDataSchema,
+} from '@/schemas'
+import { ACTIONS, NIGHT_ORDER, ROLES, canWriteChannel, readableChannels, voteWeight } from '@/roles'
+import type { ActionCreatedEventData, ActionID, ActionType } from '@/types/actions'
+import type {
+  Clan,
+  ConnectionState,
+  DeathCause,
+  ErrorCode,
+  Event as GameEvent,
+  EventChannel,
+  EventType,
+  GameDataEventData,
+  GameSettings,
+  Lovers,
+  SheriffChange,
+  TimerEventData,
+  TimerStatus,
+} from '@/types/events'
+import {
+  EventChannelAction,
+  EventChannelConnexion,
+  EventChannelGameEvent,
+  EventChannelSettings,
+  EventChannelTimer,
+  EventTypeAck,
+  EventTypeActionCreated,
+  EventTypeActionExpired,
+  EventTypeActionResponse,
+  EventTypeAttackBlocked,
+  EventTypeAuth,
+  EventTypeChatMessage,
+  EventTypeConnection,
+  EventTypeDay,
+  EventTypeDeath,
+  EventTypeDisconnection,
+  EventTypeError,
+  EventTypeGameData,
+  EventTypeGameSettings,
+  EventTypeLoversReveal,
+  EventTypeNight,
+  EventTypePing,
+  EventTypePong,
+  EventTypeReconnection,
+  EventTypeResync,
+  EventTypeRoleReveal,
+  EventTypeSeerReveal,
+  EventTypeSheriff,
+  EventTypeSnapshot,
+  EventTypeStartGame,
+  EventTypeTimer,
+  EventTypeVote,
+  EventTypeWin,
+} from '@/types/events'
+import type { GameID, GamePhase, GameStatus } from '@/types/game'
+import type { PlayerID } from '@/types/player'
+import type { RoleType } from '@/types/roles'
+
+export interface MockPlayer {
+  id: PlayerID
+  username: string
+}
+
+export interface MockServerTimings {
+  /** Seconds given to each night role */
+  nightTurn: number
+  /** Seconds of day discussion before the vote */
+  day: number
+  /** Seconds of village vote */
+  vote: number
+  /** Seconds a dead hunter has to take their last shot */
+  hunterShot: number
+  /** Seconds the sheriff has to break a tie or name a successor */
+  sheriffDecision: number
+  /** Seconds between two timer ticks */
+  tick: number
+}
+
+export interface MockGameServerOptions {
+  gameId: GameID
+  /** Defaults to the first player to join */
+  hostId?: PlayerID
+  timings?: Partial<MockServerTimings>
+  /** Random source (role assignment, tie-breaks): inject a seeded one for tests */
+  random?: () => number
+}
+
+/** Receives the events the server sends to one player */
+export type MockDeliver = (event: GameEvent<unknown>) => void
+
+export interface MockSeat {
+  playerId: PlayerID
+  /** Handle an event sent by this player */
+  receive: (event: GameEvent<unknown>) => void
+  /** The player's connection dropped */
+  leave: () => void
+}
+
+export interface MockGameServer {
+  gameId: GameID
+  /** Connect a player (a known player ID reconnects to its seat) */
+  join: (player: MockPlayer, deliver: MockDeliver) => MockSeat
+  /** Game state as the given player sees it */
+  gameDataFor: (playerId: PlayerID) => GameDataEventData
+  /** Stop every timer */
+  dispose: () => void
+}
+
+const DEFAULT_TIMINGS: MockServerTimings = {
+  nightTurn: 30,
+  day: 60,
+  vote: 45,
+  hunterShot: 20,
+  sheriffDecision: 20,
+  tick: 1,
+}
+
+// Sequenced events kept per player to answer a resync
+const MAX_HISTORY = 1000
+
+// Deprecated direct commands, mapped onto the action they answer
+const LEGACY_COMMANDS: Partial<Record<EventType, ActionType>> = Object.fromEntries(
+  (Object.keys(ACTIONS) as ActionType[]).flatMap((type) => {
+    const command = ACTIONS[type].command
+    return command ? [[command, type]] : []
+  })
+)
+
+interface SeatState {
+  player: MockPlayer
+  role: RoleType | null
+  alive: boolean
+  connection: ConnectionState
+  deliver: MockDeliver | null
+  seq: number
+  history: GameEvent<unknown>[]
+  /** Initial state waiting to be sent, unless the client asks for a resync first */
+  welcome: ReturnType<typeof setTimeout> | null
+}
+
+interface PendingAction {
+  playerId: PlayerID
+  data: ActionCreatedEventData
+  /** Apply a response already checked against its schema; returns the refusal code */
+  apply: (response: Record<string, unknown>) => ErrorCode | null
+}
+
+class CommandRefused extends Error {
+  constructor(readonly code: ErrorCode, message: string) {
+    super(message)
+  }
+}
+
+/**
+ * Default composition for a number of players
+ */
+export function defaultSettings(playerCount: number): GameSettings {
+  const werewolf = Math.max(1, Math.floor(playerCount / 4))
+  const seer = playerCount >= 3 ? 1 : 0
+  const witch = playerCount >= 5 ? 1 : 0
+  const cupid = playerCount >= 8 ? 1 : 0
+  const hunter = playerCount >= 6 ? 1 : 0
+  const guard = playerCount >= 7 ? 1 : 0
+  return {
+    roles: {
+      werewolf,
+      seer,
+      witch,
+      cupid,
+      hunter,
+      guard,
+      villager: Math.max(0, playerCount - werewolf - seer - witch - cupid - hunter - guard),
+    },
+  }
+}
+
+/**
+ * Create a mock game
+ */
+export function createMockGameServer(options: MockGameServerOptions): MockGameServer {
+  const { gameId, random = Math.random } = options
+  const timings: MockServerTimings = { ...DEFAULT_TIMINGS, ...options.timings }
+
+  const seats = new Map<PlayerID, SeatState>()
+  let host: PlayerID | null = options.hostId ?? null
+  let status: GameStatus = 'waiting'
+  let phase: GamePhase = 'start'
+  let day = 0
+  let settings: GameSettings = defaultSettings(0)
+  let settingsCustomized = false
+
+  // Current step: its pending actions, and what comes next once they are all answered
+  const actions = new Map<ActionID, PendingAction>()
+  let onStepComplete: (() => void) | null = null
+
+  let timer: TimerEventData | null = null
+  let tickHandle: ReturnType<typeof setInterval> | null = null
+
+  // Night state
+  let nightVictim: PlayerID | null = null
+  let healed = false
+  let poisoned: PlayerID | null = null
+  const werewolfVotes = new Map<PlayerID, PlayerID | null>()
+  const potions = { heal: true, poison: true }
+  // Protected tonight, and last night (who cannot be protected again)
+  let guarded: PlayerID | null = null
+  let lastGuarded: PlayerID | null = null
+
+  // Players linked by Cupid for the whole game
+  let lovers: Lovers | null = null
+
+  // Hunters who died and have not taken their last shot yet
+  const pendingShots: PlayerID[] = []
+
+  // Day state
+  const villageVotes = new Map<PlayerID, PlayerID | null>()
+  let sheriff: PlayerID | null = null
+
+  // ========================
+  // Outgoing events
+  // ========================
+
+  function send<T>(playerId: PlayerID, channel: EventChannel, type: EventType, data: T): void {
+    const seat = seats.get(playerId)
+    if (!seat) return
+    seat.seq++
+    const event: GameEvent<unknown> = { channel, type, data, seq: seat.seq }
+    seat.history.push(event)
+    if (seat.history.length > MAX_HISTORY) seat.history.shift()
+    seat.deliver?.(event)
+  }
+
+  function broadcast<T>(channel: EventChannel, type: EventType, data: T, to: (seat: SeatState) => boolean = () => true): void {
+    for (const seat of seats.values()) {
+      if (to(seat)) send(seat.player.id, channel, type, data)
+    }
+  }
+
+  /** Replies (ack, error, pong) are not part of the sequenced game stream */
+  function reply<T>(seat: SeatState, channel: EventChannel, type: EventType, data: T): void {
+    seat.deliver?.({ channel, type, data })
+  }
+
+  function ack(seat: SeatState, command: GameEvent<unknown>): void {
+    reply(seat, command.channel, EventTypeAck, { action: command.type, success: true, requestId: command.requestId })
+  }
+
+  function refuse(seat: SeatState, command: GameEvent<unknown>, code: ErrorCode, message: string): void {
+    reply(seat, command.channel, EventTypeError, { code, message, action: command.type, requestId: command.requestId })
+  }
+
+  function gameDataFor(viewerId: PlayerID): GameDataEventData {
+    const viewer = seats.get(viewerId)
+    const seesWolves = viewer?.role === 'werewolf'
+    return {
+      id: gameId,
+      status,
+      phase,
+      day,
+      host: host ?? '',
+      settings,
+      sheriff,
+      players: [...seats.values()].map((seat) => {
+        const visible = seat.player.id === viewerId
+          || !seat.alive
+          || status === 'ended'
+          || (seesWolves && seat.role === 'werewolf')
+        return {
+          id: seat.player.id,
+          username: seat.player.username,
+          alive: seat.alive,
+          role: visible ? seat.role : null,
+          connection_state: seat.connection,
+        }
+      }),
+    }
+  }
+
+  function broadcastGameData(): void {
+    for (const seat of seats.values()) {
+      send(seat.player.id, EventChannelGameEvent, EventTypeGameData, gameDataFor(seat.player.id))
+    }
+  }
+
+  /** The lovers are known to themselves and to Cupid */
+  function loversKnownBy(seat: SeatState): Lovers | null {
+    if (!lovers) return null
+    return lovers.includes(seat.player.id) || seat.role === 'cupid' ? lovers : null
+  }
+
+  function partnerOf(playerId: PlayerID): PlayerID | null {
+    if (!lovers?.includes(playerId)) return null
+    return lovers[0] === playerId ? lovers[1] : lovers[0]
+  }
+
+  function pendingActionsOf(playerId: PlayerID): ActionCreatedEventData[] {
+    return [...actions.values()].filter((a) => a.playerId === playerId).map((a) => a.data)
+  }
+
+  /**
+   * State of a player who just connected without knowing anything yet
+   */
+  function welcome(seat: SeatState): void {
+    const playerId = seat.player.id
+    send(playerId, EventChannelGameEvent, EventTypeGameData, gameDataFor(playerId))
+    if (status === 'waiting') {
+      send(playerId, EventChannelSettings, EventTypeGameSettings, settings)
+      return
+    }
+    if (seat.role) send(playerId, EventChannelGameEvent, EventTypeRoleReveal, { role: seat.role })
+    const known = loversKnownBy(seat)
+    if (known) send(playerId, EventChannelGameEvent, EventTypeLoversReveal, { lovers: known })
+    if (timer) send(playerId, EventChannelTimer, EventTypeTimer, { ...timer, status: 'started' satisfies TimerStatus })
+    for (const action of pendingActionsOf(playerId)) {
+      send(playerId, EventChannelAction, EventTypeActionCreated, action)
+    }
+  }
+
+  /**
+   * Replay what the player missed, or send a snapshot when the history no longer covers it
+   */
+  function resync(seat: SeatState, lastSeq: number): void {
+    const missed = seat.history.filter((event) => (event.seq ?? 0) > lastSeq)
+    const covered = missed.length > 0 && missed[0]!.seq === lastSeq + 1
+    if (covered) {
+      missed.forEach((event) => seat.deliver?.(event))
+      return
+    }
+    // Nothing missed (or too much): the snapshot also ends the client's resync
+    seat.deliver?.({
+      channel: EventChannelConnexion,
+      type: EventTypeSnapshot,
+      seq: seat.seq,
+      data: {
+        game: gameDataFor(seat.player.id),
+        myRole: seat.role,
+        lovers: loversKnownBy(seat),
+        timer,
+        pendingActions: pendingActionsOf(seat.player.id),
+      },
+    })
+  }
+
+  // ========================
+  // Timer
+  // ========================
+
+  function clearTick(): void {
+    if (tickHandle) {
+      clearInterval(tickHandle)
+      tickHandle = null
+    }
+  }
+
+  function startTimer(duration: number, roleType: RoleType | undefined, onExpire: () => void): void {
+    clearTick()
+    timer = { phase, roleType, duration, remaining: duration, status: 'started' }
+    broadcast(EventChannelTimer, EventTypeTimer, timer)
+
+    tickHandle = setInterval(() => {
+      if (!timer) return
+      const remaining = Math.max(0, timer.remaining - timings.tick)
+      timer = { ...timer, remaining, status: 'tick' }
+      if (remaining > 0) {
+        broadcast(EventChannelTimer, EventTypeTimer, timer)
+        return
+      }
+      stopTimer('expired')
+      onExpire()
+    }, timings.tick * 1000)
+  }
+
+  function stopTimer(status: Extract<TimerStatus, 'expired' | 'skipped'>): void {
+    clearTick()
+    if (!timer) return
+    broadcast(EventChannelTimer, EventTypeTimer, { ...timer, remaining: 0, status })
+    timer = null
+  }
+
+  // ========================
+  // Actions
+  // ========================
+
+  function createAction(playerId: PlayerID, data: Omit<ActionCreatedEventData, 'actionId' | 'expiresAt' | 'timeout'>, duration: number, apply: PendingAction['apply']): void {
+    const action = {
+      ...data,
+      actionId: crypto.randomUUID(),
+      expiresAt: new Date(Date.now() + duration * 1000).toISOString(),
+      timeout: duration,
+    } as ActionCreatedEventData
+    actions.set(action.actionId, { playerId, data: action, apply })
+    send(playerId, EventChannelAction, EventTypeActionCreated, action)
+  }
+
+  /**
+   * Run a step: its actions are created by `setup`, `complete` runs once they are all
+   * answered or when the timer runs out
+   */
+  function runStep(duration: number, roleType: RoleType | undefined, setup: () => void, complete: () => void): void {
+    let done = false
+    const finish = () => {
+      if (done) return
+      done = true
+      onStepComplete = null
+      expireActions()
+      complete()
+    }
+
+    setup()
+    if (actions.size === 0 && roleType) {
+      // Nobody to wake up (e.g. the only holder of the role is dead)
+      finish()
+      return
+    }
+    onStepComplete = () => {
+      stopTimer('skipped')
+      finish()
+    }
+    startTimer(duration, roleType, finish)
+  }
+
+  function expireActions(): void {
+    for (const [actionId, action] of actions) {
+      send(action.playerId, EventChannelAction, EventTypeActionExpired, { actionId, type: action.data.type })
+    }
+    actions.clear()
+  }
+
+  function answerAction(seat: SeatState, command: GameEvent<unknown>, actionId: ActionID, response: unknown): void {
+    const action = actions.get(actionId)
+    if (!action || action.playerId !== seat.player.id) {
+      throw new CommandRefused('INVALID_ACTION', `Unknown or expired action ${actionId}`)
+    }
+    if (!seat.alive && !ACTIONS[action.data.type].afterDeath) {
+      throw new CommandRefused('PLAYER_DEAD', 'Dead players cannot act')
+    }
+
+    const parsed = ACTIONS[action.data.type].response.safeParse(response)
+    if (!parsed.success) {
+      throw new CommandRefused('INVALID_ACTION', `Malformed ${action.data.type} response`)
+    }
+
+    const code = action.apply(parsed.data as Record<string, unknown>)
+    if (code) throw new CommandRefused(code, `${action.data.type} refused (${code})`)
+
+    actions.delete(actionId)
+    ack(seat, command)
+    if (actions.size === 0) onStepComplete?.()
+  }
+
+  // ========================
+  // Game flow
+  // ========================
+
+  const alive = () => [...seats.values()].filter((s) => s.alive)
+  const aliveWith = (role: RoleType) => alive().filter((s) => s.role === role)
+  const clanOf = (seat: SeatState): Clan => seat.role ? ROLES[seat.role].clan : 'none'
+  // A dead player who still has an action to answer (the hunter's last shot)
+  const hasLastStand = (seat: SeatState) => [...actions.values()]
+    .some((a) => a.playerId === seat.player.id && ACTIONS[a.data.type].afterDeath)
+
+  function shuffle<T>(items: T[]): T[] {
+    const result = [...items]
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1))
+      ;[result[i], result[j]] = [result[j]!, result[i]!]
+    }
+    return result
+  }
+
+  /**
+   * Most voted targets (several on a tie), each vote counting for its weight
+   */
+  function leadersOf(votes: Map<PlayerID, PlayerID | null>, weigh: (voter: PlayerID) => number = () => 1): PlayerID[] {
+    const counts = new Map<PlayerID, number>()
+    for (const [voter, target] of votes) {
+      if (target) counts.set(target, (counts.get(target) ?? 0) + weigh(voter))
+    }
+    const best = Math.max(0, ...counts.values())
+    return [...counts].filter(([, count]) => count === best && best > 0).map(([id]) => id)
+  }
+
+  /**
+   * Most voted target; ties are broken at random or give no one
+   */
+  function tally(votes: Map<PlayerID, PlayerID | null>, breakTies: boolean): PlayerID | null {
+    const leaders = leadersOf(votes)
+    if (leaders.length === 1) return leaders[0]!
+    if (leaders.length > 1 && breakTies) return leaders[Math.floor(random() * leaders.length)]!
+    return null
+  }
+
+  function startGame(): void {
+    const roles = shuffle(
+      Object.entries(settings.roles).flatMap(([role, count]) => Array<RoleType>(count ?? 0).fill(role as RoleType))
+    )
+    ;[...seats.values()].forEach((seat, i) => {
+      seat.role = roles[i] ?? 'villager'
+      seat.alive = true
+    })
+
+    status = 'active'
+    day = 0
+    lovers = null
+    sheriff = null
+    pendingShots.length = 0
+    guarded = null
+    potions.heal = true
+    potions.poison = true
+    broadcastGameData()
+    for (const seat of seats.values()) {
+      send(seat.player.id, EventChannelGameEvent, EventTypeRoleReveal, { role: seat.role })
+    }
+    beginNight()
+  }
+
+  function beginNight(): void {
+    phase = 'night'
+    nightVictim = null
+    healed = false
+    poisoned = null
+    lastGuarded = guarded
+    guarded = null
+    werewolfVotes.clear()
+    broadcast(EventChannelGameEvent, EventTypeNight, {})
+    broadcastGameData()
+    runNightTurn(0)
+  }
+
+  function runNightTurn(index: number): void {
+    if (status !== 'active') return
+    const role = NIGHT_ORDER[index]
+    if (!role) {
+      dawn()
+      return
+    }
+
+    const next = () => runNightTurn(index + 1)
+    if (ROLES[role].firstNightOnly && day > 0) {
+      next()
+      return
+    }
+
+    switch (role) {
+      case 'cupid':
+        runStep(timings.nightTurn, role, () => {
+          const targets = alive().map((s) => s.player.id)
+          for (const cupid of aliveWith('cupid')) {
+            createAction(cupid.player.id, { type: 'cupid_link', payload: { eligibleTargets: targets } }, timings.nightTurn, (response) => {
+              const firstTargetId = response.firstTargetId as PlayerID
+              const secondTargetId = response.secondTargetId as PlayerID
+              if (!targets.includes(firstTargetId) || !targets.includes(secondTargetId)) return 'INVALID_TARGET'
+              if (lovers) return 'ABILITY_USED'
+              lovers = [firstTargetId, secondTargetId]
+              for (const playerId of new Set([...lovers, cupid.player.id])) {
+                send(playerId, EventChannelGameEvent, EventTypeLoversReveal, { lovers })
+              }
+              return null
+            })
+          }
+        }, next)
+        break
+
+
+      case 'seer':
+        runStep(timings.nightTurn, role, () => {
+          for (const seer of aliveWith('seer')) {
+            const targets = alive().filter((s) => s !== seer)
+            createAction(seer.player.id, { type: 'seer_vision', payload: { eligibleTargets: targets.map((s) => s.player.id) } }, timings.nightTurn, (response) => {
+              const target = seats.get(response.targetId as PlayerID)
+              if (!target || !targets.includes(target)) return 'INVALID_TARGET'
+              send(seer.player.id, EventChannelGameEvent, EventTypeSeerReveal, { targetId: target.player.id, roleType: target.role })
+              return null
+            })
+          }
+        }, next)
+        break
+
+      case 'guard':
+        runStep(timings.nightTurn, role, () => {
+          const previousTargetId = lastGuarded
+          const targets = alive().map((s) => s.player.id).filter((id) => id !== previousTargetId)
+          for (const guard of aliveWith('guard')) {
+            createAction(guard.player.id, { type: 'guard_protect', payload: { eligibleTargets: targets, previousTargetId } }, timings.nightTurn, (response) => {
+              const targetId = response.targetId as PlayerID
+              if (targetId === previousTargetId) return 'SAME_PROTECT_TARGET'
+              if (!targets.includes(targetId)) return 'INVALID_TARGET'
+              guarded = targetId
+              return null
+            })
+          }
+        }, next)
+        break
+
+      case 'werewolf':
+        runStep(timings.nightTurn, role, () => {
+          const targets = alive().filter((s) => s.role !== 'werewolf').map((s) => s.player.id)
+          for (const wolf of aliveWith('werewolf')) {
+            createAction(wolf.player.id, { type: 'werewolf_vote', payload: { eligibleTargets: targets } }, timings.nightTurn, (response) => {
+              const targetId = (response.targetId as PlayerID | null | undefined) ?? null
+              if (targetId && !targets.includes(targetId)) return 'INVALID_TARGET'
+              werewolfVotes.set(wolf.player.id, targetId)
+              return null
+            })
+          }
+        }, () => {
+          nightVictim = tally(werewolfVotes, true)
+          next()
+        })
+        break
+
+      case 'witch':
+        runStep(timings.nightTurn, role, () => {
+          for (const witch of aliveWith('witch')) {
+            const payload = { victimId: nightVictim, hasHealPotion: potions.heal, hasPoisonPotion: potions.poison }
+            createAction(witch.player.id, { type: 'witch_potion', payload }, timings.nightTurn, (response) => {
+              const healTargetId = response.healTargetId as PlayerID | null | undefined
+              const poisonTargetId = response.poisonTargetId as PlayerID | null | undefined
+              if (healTargetId && !potions.heal) return 'ABILITY_USED'
+              if (healTargetId && healTargetId !== nightVictim) return 'CAN_ONLY_HEAL_VICTIM'
+              if (poisonTargetId && !potions.poison) return 'ABILITY_USED'
+              if (poisonTargetId && !seats.get(poisonTargetId)?.alive) return 'TARGET_DEAD'
+              if (healTargetId) {
+                potions.heal = false
+                healed = true
+              }
+              if (poisonTargetId) {
+                potions.poison = false
+                poisoned = poisonTargetId
+              }
+              return null
+            })
+          }
+        }, next)
+        break
+
+      default:
+        next()
+    }
+  }
+
+  function kill(playerId: PlayerID, cause?: DeathCause): void {
+    const seat = seats.get(playerId)
+    if (!seat || !seat.alive) return
+    seat.alive = false
+    broadcast(EventChannelGameEvent, EventTypeDeath, { victim: playerId, role: seat.role, cause })
+    if (seat.role === 'hunter') pendingShots.push(playerId)
+
+    // A lover does not survive the other one
+    const partner = partnerOf(playerId)
+    if (partner) kill(partner, 'grief')
+  }
+
+  function dawn(): void {
+    // Deaths are announced before the day starts
+    const blocked = nightVictim !== null && nightVictim === guarded
+    if (blocked) broadcast(EventChannelGameEvent, EventTypeAttackBlocked, {})
+    else if (nightVictim && !healed) kill(nightVictim)
+    if (poisoned) kill(poisoned)
+    settleDeaths(beginDay)
+  }
+
+  /**
+   * Give each hunter who just died their last shot, then check for a winner
+   * before going on
+   */
+  function settleDeaths(then: () => void): void {
+    if (status !== 'active') return
+    const hunterId = pendingShots.shift()
+    if (!hunterId) {
+      if (checkWin()) return
+      // The star passes on before the game goes on
+      if (sheriff && !seats.get(sheriff)?.alive) nameSuccessor(sheriff, () => settleDeaths(then))
+      else then()
+      return
+    }
+
+    runStep(timings.hunterShot, 'hunter', () => {
+      const targets = alive().map((s) => s.player.id)
+      createAction(hunterId, { type: 'hunter_shot', payload: { eligibleTargets: targets } }, timings.hunterShot, (response) => {
+        const targetId = response.targetId as PlayerID
+        if (!targets.includes(targetId)) return 'INVALID_TARGET'
+        if (!seats.get(targetId)?.alive) return 'TARGET_DEAD'
+        kill(targetId, 'hunter_shot')
+        return null
+      })
+    }, () => settleDeaths(then))
+  }
+
+  function beginDay(): void {
+    day++
+    phase = 'day'
+    broadcast(EventChannelGameEvent, EventTypeDay, { day })
+    broadcastGameData()
+    const discuss = () => runStep(timings.day, undefined, () => {}, beginVote)
+    if (day === 1) electSheriff(discuss)
+    else discuss()
+  }
+
+  // ========================
+  // Sheriff
+  // ========================
+
+  function setSheriff(playerId: PlayerID | null, reason: SheriffChange): void {
+    sheriff = playerId
+    broadcast(EventChannelGameEvent, EventTypeSheriff, { sheriffId: playerId, reason })
+    broadcastGameData()
+  }
+
+  /**
+   * Day 1: every living player votes; a tie is drawn at random
+   */
+  function electSheriff(then: () => void): void {
+    const ballots = new Map<PlayerID, PlayerID | null>()
+    runStep(timings.vote, undefined, () => {
+      const candidates = alive().map((s) => s.player.id)
+      for (const voter of alive()) {
+        createAction(voter.player.id, { type: 'sheriff_election', payload: { eligibleTargets: candidates } }, timings.vote, (response) => {
+          const targetId = (response.targetId as PlayerID | null | undefined) ?? null
+          if (targetId && !candidates.includes(targetId)) return 'INVALID_TARGET'
+          ballots.set(voter.player.id, targetId)
+          return null
+        })
+      }
+    }, () => {
+      const elected = tally(ballots, true)
+      if (elected) setSheriff(elected, 'election')
+      then()
+    })
+  }
+
+  /**
+   * The dead sheriff names a successor; naming nobody leaves the village without a sheriff
+   */
+  function nameSuccessor(formerId: PlayerID, then: () => void): void {
+    let successor: PlayerID | null = null
+    runStep(timings.sheriffDecision, undefined, () => {
+      const targets = alive().map((s) => s.player.id)
+      createAction(formerId, { type: 'sheriff_succession', payload: { eligibleTargets: targets } }, timings.sheriffDecision, (response) => {
+        const targetId = response.targetId as PlayerID
+        if (!targets.includes(targetId)) return 'INVALID_TARGET'
+        successor = targetId
+        return null
+      })
+    }, () => {
+      setSheriff(successor, 'succession')
+      then()
+    })
+  }
+
+  function beginVote(): void {
+    if (status !== 'active') return
+    phase = 'vote'
+    villageVotes.clear()
+    broadcast(EventChannelGameEvent, EventTypeVote, { type: 'start' })
+    broadcastGameData()
+
+    runStep(timings.vote, undefined, () => {
+      for (const voter of alive()) {
+        const targets = alive().filter((s) => s !== voter).map((s) => s.player.id)
+        createAction(voter.player.id, { type: 'village_vote', payload: { eligibleTargets: targets } }, timings.vote, (response) => {
+          const targetId = (response.targetId as PlayerID | null | undefined) ?? null
+          if (targetId && !targets.includes(targetId)) return 'INVALID_TARGET'
+          villageVotes.set(voter.player.id, targetId)
+          broadcast(EventChannelGameEvent, EventTypeVote, { type: 'player', player: voter.player.id, target: targetId ?? undefined })
+          return null
+        })
+      }
+    }, endVote)
+  }
+
+  function endVote(): void {
+    const leaders = leadersOf(villageVotes, (voter) => voteWeight(voter, sheriff))
+    const sheriffSeat = sheriff ? seats.get(sheriff) : undefined
+    if (leaders.length > 1 && sheriffSeat?.alive) {
+      breakTie(sheriffSeat, leaders)
+      return
+    }
+    eliminate(leaders.length === 1 ? leaders[0]! : null)
+  }
+
+  /**
+   * The sheriff picks who leaves among the tied players; no answer eliminates no one
+   */
+  function breakTie(sheriffSeat: SeatState, tied: PlayerID[]): void {
+    let chosen: PlayerID | null = null
+    runStep(timings.sheriffDecision, undefined, () => {
+      createAction(sheriffSeat.player.id, { type: 'sheriff_tiebreak', payload: { eligibleTargets: tied } }, timings.sheriffDecision, (response) => {
+        const targetId = response.targetId as PlayerID
+        if (!tied.includes(targetId)) return 'INVALID_TARGET'
+        chosen = targetId
+        return null
+      })
+    }, () => eliminate(chosen))
+  }
+
+  function eliminate(eliminated: PlayerID | null): void {
+    broadcast(EventChannelGameEvent, EventTypeVote, { type: 'end', target: eliminated ?? undefined })
+    if (eliminated) kill(eliminated)
+    settleDeaths(beginNight)
+  }
+
+  /**
+   * End the game if a clan has won
+   */
+  function checkWin(): boolean {
+    const living = alive()
+    const wolves = living.filter((s) => clanOf(s) === 'werewolf').length
+    const others = living.length - wolves
+    // Lovers from both clans win together once they are the last ones standing
+    const loversWin = lovers !== null
+      && living.length === 2
+      && living.every((s) => lovers!.includes(s.player.id))
+      && clanOf(living[0]!) !== clanOf(living[1]!)
+
+    let winningClan: Clan | null = null
+    if (loversWin) winningClan = 'lovers'
+    else if (wolves === 0) winningClan = 'villager'
+    else if (wolves >= others) winningClan = 'werewolf'
+    if (!winningClan) return false
+
+    onStepComplete = null
+    expireActions()
+    stopTimer('skipped')
+    status = 'ended'
+    const winners = winningClan === 'lovers'
+      ? [...lovers!]
+      : [...seats.values()].filter((s) => clanOf(s) === winningClan).map((s) => s.player.id)
+    broadcast(EventChannelGameEvent, EventTypeWin, { winningClan, winners })
+    broadcastGameData()
+    return true
+  }
+
+  // ========================
+  // Commands
+  // ========================
+
+  function requireHostInLobby(seat: SeatState): void {
+    if (seat.player.id !== host) throw new CommandRefused('INVALID_ACTION', 'Only the host can do this')
+    if (status !== 'waiting') throw new CommandRefused('WRONG_PHASE', 'The game has already started')
+  }
+
+  function handleCommand(seat: SeatState, command: GameEvent<unknown>): void {
+    switch (command.type) {
+      case EventTypeStartGame: {
+        requireHostInLobby(seat)
+        const total = Object.values(settings.roles).reduce((sum, count) => sum + (count ?? 0), 0)
+        if (total !== seats.size) {
+          throw new CommandRefused('INVALID_ACTION', `${total} roles for ${seats.size} players`)
+        }
+        if (!settings.roles.werewolf) throw new CommandRefused('INVALID_ACTION', 'At least one werewolf is needed')
+        ack(seat, command)
+        startGame()
+        return
+      }
+
+      case EventTypeGameSettings: {
+        requireHostInLobby(seat)
+        const parsed = GameSettingsEventDataSchema.safeParse(command.data)
+        if (!parsed.success) throw new CommandRefused('INVALID_ACTION', 'Malformed settings')
+        settings = { roles: parsed.data.roles }
+        settingsCustomized = true
+        ack(seat, command)
+        broadcast(EventChannelSettings, EventTypeGameSettings, settings)
+        return
+      }
+
+      case EventTypeChatMessage: {
+        // Sender fields are left empty by the client and filled in here
+        const parsed = ChatMessageEventSchema.pick({ message: true, channel: true }).safeParse(command.data)
+        if (!parsed.success) throw new CommandRefused('INVALID_ACTION', 'Malformed chat message')
+        const { message, channel } = parsed.data
+        const inGame = status === 'active'
+
+        let to: (s: SeatState) => boolean
+        if (channel === 'village') {
+          if (inGame && !seat.alive && !hasLastStand(seat)) throw new CommandRefused('PLAYER_DEAD', 'Dead players cannot talk')
+          if (inGame && phase === 'night') throw new CommandRefused('WRONG_PHASE', 'The village sleeps')
+          to = () => true
+        } else if (channel === 'werewolf') {
+          if (!canWriteChannel(seat.role, channel)) throw new CommandRefused('WRONG_ROLE', 'Werewolves only')
+          if (!seat.alive) throw new CommandRefused('PLAYER_DEAD', 'Dead players cannot talk')
+          if (phase !== 'night') throw new CommandRefused('WRONG_PHASE', 'Werewolves talk at night')
+          to = (s) => readableChannels(s.role).includes(channel)
+        } else if (channel === 'lovers') {
+          const pair = lovers
+          if (!pair?.includes(seat.player.id)) throw new CommandRefused('WRONG_ROLE', 'Lovers only')
+          if (!seat.alive) throw new CommandRefused('PLAYER_DEAD', 'Dead players cannot talk')
+          to = (s) => pair.includes(s.player.id)
+        } else {
+          throw new CommandRefused('INVALID_ACTION', `Unknown chat channel ${channel}`)
+        }
+
+        // No ack: the broadcast is the sender's confirmation
+        broadcast(EventChannelGameEvent, EventTypeChatMessage, {
+          playerID: seat.player.id,
+          nickname: seat.player.username,
+          message,
+          channel,
+        }, to)
+        return
+      }
+
+      case EventTypeActionResponse: {
+        const parsed = ActionResponseEventDataSchema.safeParse(command.data)
+        if (!parsed.success) throw new CommandRefused('INVALID_ACTION', 'Malformed action response')
+        answerAction(seat, command, parsed.data.actionId, parsed.data.response)
+        return
+      }
+    }
+
+    const legacyType = LEGACY_COMMANDS[command.type]
+    if (legacyType) {
+      const action = [...actions.values()].find((a) => a.playerId === seat.player.id && a.data.type === legacyType)
+      if (!action) throw new CommandRefused('NOT_YOUR_TURN', `No pending ${legacyType}`)
+      answerAction(seat, command, action.data.actionId, command.data)
+      return
+    }
+
+    throw new CommandRefused('INVALID_ACTION', `Unsupported command ${command.channel}/${command.type}`)
+  }
+
+  function receive(seat: SeatState, event: GameEvent<unknown>): void {
+    switch (event.type) {
+      case EventTypePing:
+        reply(seat, EventChannelConnexion, EventTypePong, event.data)
+        return
+
+      case EventTypeAuth:
+        // The client asks for a resync right after auth when it already has state
+        if (seat.welcome) clearTimeout(seat.welcome)
+        seat.welcome = setTimeout(() => {
+          seat.welcome = null
+          welcome(seat)
+        }, 0)
+        return
+
+      case EventTypeResync: {
+        if (seat.welcome) {
+          clearTimeout(seat.welcome)
+          seat.welcome = null
+        }
+        const parsed = ResyncEventDataSchema.safeParse(event.data)
+        resync(seat, parsed.success ? parsed.data.lastSeq : 0)
+        return
+      }
+    }
+
+    try {
+      handleCommand(seat, event)
+    } catch (e) {
+      if (!(e instanceof CommandRefused)) throw e
+      refuse(seat, event, e.code, e.message)
+    }
+  }
+
+  // ========================
+  // Seats
+  // ========================
+
+  function join(player: MockPlayer, deliver: MockDeliver): MockSeat {
+    let seat = seats.get(player.id)
+
+    if (seat) {
+      seat.deliver = deliver
+      seat.connection = 'connected'
+      broadcast(EventChannelConnexion, EventTypeReconnection, { player: player.id }, (s) => s !== seat)
+    } else {
+      if (status !== 'waiting') {
+        throw new Error(`[MockServer] Game ${gameId} already started, ${player.id} cannot join`)
+      }
+      seat = {
+        player,
+        role: null,
+        alive: true,
+        connection: 'connected',
+        deliver,
+        seq: 0,
+        history: [],
+        welcome: null,
+      }
+      seats.set(player.id, seat)
+      host ??= player.id
+      if (!settingsCustomized) settings = defaultSettings(seats.size)
+      broadcast(EventChannelConnexion, EventTypeConnection, { player: player.id }, (s) => s !== seat)
+    }
+    broadcastGameData()
+
+    const current = seat
+    return {
+      playerId: player.id,
+      receive: (event) => receive(current, event),
+      leave: () => {
+        if (current.deliver !== deliver) return
+        if (current.welcome) clearTimeout(current.welcome)
+        current.welcome = null
+        current.deliver = null
+        current.connection = 'disconnected'
+        broadcast(EventChannelConnexion, EventTypeDisconnection, { player: player.id })
+        broadcastGameData()
+      },
+    }
+  }
+
+  function dispose(): void {
+    clearTick()
+    onStepComplete = null
+    for (const seat of seats.values()) {
+      if (seat.welcome) clearTimeout(seat.welcome)
+    }
+  }
+
+  return {
+    gameId,
+    join,
+    gameDataFor,
+    dispose,
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Simulated WebSocket
+ *
+ * Stands in for a browser WebSocket (the part useWebSocket relies on) and connects
+ * to a mock game server instead of the network. Frames are JSON text, as on the
+ * real wire without a negotiated subprotocol.
+ */
+
+import { jsonCodec, type WireFrame } from '@/utils/codecs'
+import type { Event as GameEvent } from '@/types/events'
+import type { MockGameServer, MockPlayer, MockSeat } from './server'
+
+export interface MockSocketOptions {
+  server: MockGameServer
+  player: MockPlayer
+  /** One-way delay applied to every frame (ms) */
+  latency?: number
+}
+
+// Close codes used by the real server
+const CLOSE_NORMAL = 1000
+const CLOSE_UNAUTHORIZED = 4001
+const CLOSE_REFUSED = 4000
+
+export class MockWebSocket {
+  static readonly CONNECTING = 0
+  static readonly OPEN = 1
+  static readonly CLOSING = 2
+  static readonly CLOSED = 3
+
+  readonly CONNECTING = 0
+  readonly OPEN = 1
+  readonly CLOSING = 2
+  readonly CLOSED = 3
+
+  readonly url: string
+  readonly protocol = ''
+  readyState = MockWebSocket.CONNECTING
+  binaryType: BinaryType = 'blob'
+
+  onopen: ((event: Event) => void) | null = null
+  onmessage: ((event: MessageEvent) => void) | null = null
+  onerror: ((event: Event) => void) | null = null
+  onclose: ((event: CloseEvent) => void) | null = null
+
+  private readonly options: MockSocketOptions
+  private seat: MockSeat | null = null
+  private authenticated = false
+
+  constructor(url: string, options: MockSocketOptions) {
+    this.url = url
+    this.options = options
+    this.later(() => this.open())
+  }
+
+  send(frame: WireFrame | Uint8Array): void {
+    if (this.readyState !== MockWebSocket.OPEN) {
+      throw new DOMException('WebSocket is not open', 'InvalidStateError')
+    }
+    if (typeof frame !== 'string') {
+      throw new TypeError('[MockWebSocket] Only JSON text frames are supported')
+    }
+    this.later(() => this.receive(frame))
+  }
+
+  close(code = CLOSE_NORMAL, reason = ''): void {
+    if (this.readyState === MockWebSocket.CLOSING || this.readyState === MockWebSocket.CLOSED) return
+    this.readyState = MockWebSocket.CLOSING
+    this.later(() => this.finish(code, reason))
+  }
+
+  private later(callback: () => void): void {
+    setTimeout(callback, this.options.latency ?? 20)
+  }
+
+  private open(): void {
+    if (this.readyState !== MockWebSocket.CONNECTING) return
+    try {
+      this.seat = this.options.server.join(this.options.player, (event) => this.deliver(event))
+    } catch (e) {
+      console.error(e)
+      this.finish(CLOSE_REFUSED, 'Join refused')
+      return
+    }
+    this.readyState = MockWebSocket.OPEN
+    this.onopen?.(new Event('open'))
+  }
+
+  /**
+   * Client → server frame
+   */
+  private receive(frame: string): void {
+    if (this.readyState !== MockWebSocket.OPEN || !this.seat) return
+    const event = jsonCodec.decode(frame) as GameEvent<unknown>
+
+    // As on the real server, the first frame must carry the token
+    if (!this.authenticated) {
+      const token = (event.data as { token?: unknown } | undefined)?.token
+      if (event.type !== 'auth' || typeof token !== 'string' || !token) {
+        this.close(CLOSE_UNAUTHORIZED, 'Authentication required')
+        return
+      }
+      this.authenticated = true
+    }
+    this.seat.receive(event)
+  }
+
+  /**
+   * Server → client event
+   */
+  private deliver(event: GameEvent<unknown>): void {
+    const frame = jsonCodec.encode(event)
+    this.later(() => {
+      if (this.readyState !== MockWebSocket.OPEN) return
+      this.onmessage?.(new MessageEvent('message', { data: frame }))
+    })
+  }
+
+  private finish(code: number, reason: string): void {
+    if (this.readyState === MockWebSocket.CLOSED) return
+    this.readyState = MockWebSocket.CLOSED
+    this.seat?.leave()
+    this.seat = null
+    this.onclose?.(new CloseEvent('close', { code, reason, wasClean: code === CLOSE_NORMAL }))
+  }
+}
@@ -0,0 +1,299 @@
+/**
+ * Bot strategies
+ *
+ * One strategy per role answers the actions the server creates for a bot. Decisions
+ * rely on what the bot has seen so far (BotKnowledge) and get sharper with the difficulty.
+ */
+
+import type { ActionCreatedEventData, ActionResponse, WitchPotionPayload } from '@/types/actions'
+import type { PlayerID } from '@/types/player'
+import type { RoleType } from '@/types/roles'
+
+export type BotDifficulty = 'easy' | 'normal' | 'hard'
+
+export interface DifficultyProfile {
+  /** Chance to follow its reasoning rather than pick at random (0..1) */
+  insight: number
+  /** Reaction delay, as a share of the action timeout */
+  thinking: [min: number, max: number]
+  /** Chance to post a chat line when something happens (0..1) */
+  chattiness: number
+}
+
+export const BOT_DIFFICULTIES: Record<BotDifficulty, DifficultyProfile> = {
+  easy: { insight: 0.2, thinking: [0.3, 0.8], chattiness: 0.3 },
+  normal: { insight: 0.6, thinking: [0.15, 0.5], chattiness: 0.5 },
+  hard: { insight: 0.9, thinking: [0.1, 0.35], chattiness: 0.6 },
+}
+
+/**
+ * What a bot has seen of the game
+ */
+export interface BotKnowledge {
+  self: PlayerID
+  role: RoleType | null
+  day: number
+  usernames: Map<PlayerID, string>
+  alive: Set<PlayerID>
+  /** Roles known for sure: its own, the pack, seer visions, deaths */
+  roles: Map<PlayerID, RoleType>
+  /** Higher means more likely to be a werewolf */
+  suspicion: Map<PlayerID, number>
+  /** Votes of the current village vote (voter → target) */
+  votes: Map<PlayerID, PlayerID>
+  /** Victim named in the werewolf chat tonight */
+  packTarget: PlayerID | null
+}
+
+export interface BotContext {
+  knowledge: BotKnowledge
+  profile: DifficultyProfile
+  random: () => number
+  /** Name tonight's victim to the pack */
+  proposeVictim: (target: PlayerID) => void
+}
+
+export interface BotStrategy {
+  /** Answer an action; null lets it expire */
+  decide: (action: ActionCreatedEventData, context: BotContext) => ActionResponse | null
+}
+
+// Weight of a role known for sure, against suspicion points
+const CERTAINTY = 100
+
+// Suspicion above which the witch spends her poison
+const POISON_THRESHOLD = 3
+
+function pickRandom<T>(items: T[], random: () => number): T | null {
+  return items.length > 0 ? items[Math.floor(random() * items.length)]! : null
+}
+
+/**
+ * Werewolf likelihood of a player, as the bot sees it
+ */
+function suspicionOf(knowledge: BotKnowledge, playerId: PlayerID): number {
+  const known = knowledge.roles.get(playerId)
+  if (known) return known === 'werewolf' ? CERTAINTY : -CERTAINTY
+  return knowledge.suspicion.get(playerId) ?? 0
+}
+
+function votesAgainst(knowledge: BotKnowledge, playerId: PlayerID): number {
+  return [...knowledge.votes.values()].filter((target) => target === playerId).length
+}
+
+/**
+ * Best candidate for a score; a bot lacking insight picks at random
+ */
+function pickBest(candidates: PlayerID[], context: BotContext, score: (playerId: PlayerID) => number): PlayerID | null {
+  const { random, profile } = context
+  if (random() >= profile.insight) return pickRandom(candidates, random)
+
+  let best: PlayerID | null = null
+  let bestScore = -Infinity
+  for (const candidate of candidates) {
+    // The noise breaks ties
+    const value = score(candidate) + random() * 0.5
+    if (value > bestScore) {
+      best = candidate
+      bestScore = value
+    }
+  }
+  return best
+}
+
+/**
+ * Vote for the most suspect player, leaning towards the crowd
+ */
+function voteVillage(targets: PlayerID[], context: BotContext): ActionResponse {
+  const { knowledge } = context
+  return {
+    targetId: pickBest(targets, context, (id) => suspicionOf(knowledge, id) + votesAgainst(knowledge, id) * 0.5),
+  }
+}
+
+const villager: BotStrategy = {
+  decide: (action, context) => {
+    if (action.type === 'village_vote') return voteVillage(action.payload.eligibleTargets, context)
+    return null
+  },
+}
+
+const seer: BotStrategy = {
+  decide: (action, context) => {
+    const { knowledge } = context
+    switch (action.type) {
+      case 'seer_vision': {
+        // No point looking twice at the same player
+        const unknown = action.payload.eligibleTargets.filter((id) => !knowledge.roles.has(id))
+        const targetId = pickBest(unknown, context, (id) => suspicionOf(knowledge, id))
+          ?? pickRandom(action.payload.eligibleTargets, context.random)
+        return targetId ? { targetId } : null
+      }
+      case 'village_vote':
+        return voteVillage(action.payload.eligibleTargets, context)
+      default:
+        return null
+    }
+  },
+}
+
+const werewolf: BotStrategy = {
+  decide: (action, context) => {
+    const { knowledge } = context
+    const isPack = (id: PlayerID) => knowledge.roles.get(id) === 'werewolf'
+
+    switch (action.type) {
+      case 'werewolf_vote': {
+        const targets = action.payload.eligibleTargets
+        // The pack follows the first victim named in its chat
+        if (knowledge.packTarget && targets.includes(knowledge.packTarget)) {
+          return { targetId: knowledge.packTarget }
+        }
+        // Those who suspect the bot are the most dangerous
+        const targetId = pickBest(targets, context, (id) => knowledge.suspicion.get(id) ?? 0)
+        if (targetId) context.proposeVictim(targetId)
+        return { targetId }
+      }
+      case 'village_vote': {
+        // Never against the pack; otherwise blend in with the crowd
+        const targets = action.payload.eligibleTargets.filter((id) => !isPack(id))
+        return {
+          targetId: pickBest(targets, context, (id) => votesAgainst(knowledge, id) + (knowledge.suspicion.get(id) ?? 0) * 0.5),
+        }
+      }
+      default:
+        return null
+    }
+  },
+}
+
+/**
+ * Heal and poison decisions of the witch
+ */
+function brew(payload: WitchPotionPayload, context: BotContext): ActionResponse {
+  const { knowledge, profile, random } = context
+  const victimId = payload.victimId ?? null
+  let healTargetId: PlayerID | null = null
+  let poisonTargetId: PlayerID | null = null
+
+  if (victimId && payload.hasHealPotion) {
+    const trusted = victimId === knowledge.self || suspicionOf(knowledge, victimId) < 0
+    // A sharp witch saves the first victims and the players she trusts
+    const chance = random() < profile.insight ? (trusted || knowledge.day <= 1 ? 0.9 : 0.5) : 0.5
+    if (random() < chance) healTargetId = victimId
+  }
+
+  if (payload.hasPoisonPotion) {
+    const candidates = [...knowledge.alive].filter((id) => id !== knowledge.self && id !== victimId)
+    const suspect = pickBest(candidates, context, (id) => suspicionOf(knowledge, id))
+    const confident = suspect !== null && suspicionOf(knowledge, suspect) >= POISON_THRESHOLD
+    if (suspect && (confident ? random() < profile.insight : random() < 0.05)) poisonTargetId = suspect
+  }
+
+  return { healTargetId, poisonTargetId }
+}
+
+const witch: BotStrategy = {
+  decide: (action, context) => {
+    switch (action.type) {
+      case 'witch_potion':
+        return brew(action.payload, context)
+      case 'village_vote':
+        return voteVillage(action.payload.eligibleTargets, context)
+      default:
+        return null
+    }
+  },
+}
+
+const cupid: BotStrategy = {
+  decide: (action, context) => {
+    switch (action.type) {
+      case 'cupid_link': {
+        // Nothing is known on the first night: any two players will do
+        const firstTargetId = pickRandom(action.payload.eligibleTargets, context.random)
+        const secondTargetId = pickRandom(action.payload.eligibleTargets.filter((id) => id !== firstTargetId), context.random)
+        return firstTargetId && secondTargetId ? { firstTargetId, secondTargetId } : null
+      }
+      case 'village_vote':
+        return voteVillage(action.payload.eligibleTargets, context)
+      default:
+        return null
+    }
+  },
+}
+
+const hunter: BotStrategy = {
+  decide: (action, context) => {
+    switch (action.type) {
+      case 'hunter_shot': {
+        // Take the most likely werewolf along
+        const targetId = pickBest(action.payload.eligibleTargets, context, (id) => suspicionOf(context.knowledge, id))
+        return targetId ? { targetId } : null
+      }
+      case 'village_vote':
+        return voteVillage(action.payload.eligibleTargets, context)
+      default:
+        return null
+    }
+  },
+}
+
+const guard: BotStrategy = {
+  decide: (action, context) => {
+    const { knowledge } = context
+    switch (action.type) {
+      case 'guard_protect': {
+        // Shield the player trusted most, never a known werewolf
+        const targets = action.payload.eligibleTargets.filter((id) => knowledge.roles.get(id) !== 'werewolf')
+        const targetId = pickBest(targets, context, (id) => -(knowledge.suspicion.get(id) ?? 0))
+        return targetId ? { targetId } : null
+      }
+      case 'village_vote':
+        return voteVillage(action.payload.eligibleTargets, context)
+      default:
+        return null
+    }
+  },
+}
+
+/**
+ * How much the bot wants a player to hold the star: werewolves back the pack,
+ * the others the players they trust
+ */
+function trustOf(knowledge: BotKnowledge, playerId: PlayerID): number {
+  if (knowledge.role === 'werewolf') return knowledge.roles.get(playerId) === 'werewolf' ? CERTAINTY : 0
+  return -suspicionOf(knowledge, playerId)
+}
+
+/** Sheriff actions, whatever the bot's role */
+export const SHERIFF_STRATEGY: BotStrategy = {
+  decide: (action, context) => {
+    const { knowledge } = context
+    switch (action.type) {
+      case 'sheriff_election':
+      case 'sheriff_succession': {
+        // A bot does not vote for itself: its own role is known for sure
+        const candidates = action.payload.eligibleTargets.filter((id) => id !== knowledge.self)
+        const targetId = pickBest(candidates, context, (id) => trustOf(knowledge, id))
+        return targetId ? { targetId } : null
+      }
+      case 'sheriff_tiebreak': {
+        const targetId = pickBest(action.payload.eligibleTargets, context, (id) => -trustOf(knowledge, id))
+        return targetId ? { targetId } : null
+      }
+      default:
+        return null
+    }
+  },
+}
+
+export const BOT_STRATEGIES: Record<RoleType, BotStrategy> = {
+  villager,
+  seer,
+  werewolf,
+  witch,
+  cupid,
+  hunter,
+  guard,
+}
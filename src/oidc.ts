@@ -1,4 +1,4 @@
-import { UserManager, WebStorageStateStore, type User } from 'oidc-client-ts';
+import { UserManager, WebStorageStateStore, ErrorResponse, type User } from 'oidc-client-ts';
 
 const settings = {
     authority: 'https://auth-shamus.nhsoul.fr/oidc',
@@ -18,3 +18,36 @@ export const userManager = new UserManager(settings);
 export const getUser = async (): Promise<User | null> => {
     return await userManager.getUser();
 };
+
+// Marge minimale de validité du jeton avant de le considérer comme périmé (secondes)
+const TOKEN_MIN_VALIDITY = 60;
+
+/**
+ * Retourne un utilisateur dont le jeton est encore valide, en lançant un
+ * renouvellement silencieux si nécessaire.
+ * Retourne null si la session est perdue (connexion interactive requise) ;
+ * les erreurs réseau sont propagées pour permettre un nouvel essai.
+ */
+export const getFreshUser = async (minValidity: number = TOKEN_MIN_VALIDITY): Promise<User | null> => {
+    const user = await userManager.getUser();
+    if (user && !user.expired && (user.expires_in ?? Infinity) > minValidity) {
+        return user;
+    }
+
+    try {
+        return await userManager.signinSilent();
+    } catch (error) {
+        if (error instanceof ErrorResponse) {
+            return null;
+        }
+        throw error;
+    }
+};
+
+/**
+ * Jeton d'accès frais, ou null si l'utilisateur doit se reconnecter
+ */
+export const getFreshAccessToken = async (): Promise<string | null> => {
+    const user = await getFreshUser();
+    return user?.access_token ?? null;
+};
@@ -0,0 +1,126 @@
+/**
+ * Action registry
+ *
+ * Each action type with its payload and response schemas and the component
+ * the player answers it with. Components load on demand.
+ */
+
+import { defineAsyncComponent, type Component } from 'vue'
+import type { z } from 'zod'
+import * as S from '@/schemas'
+import type { ActionType } from '@/types/actions'
+import type { EventType } from '@/types/events'
+import type { RoleType } from '@/types/roles'
+import type { ModalVariant } from '@/types/ui'
+
+export interface ActionDefinition {
+  /** Modal title */
+  title: string
+  /** Short name in messages */
+  label: string
+  variant: ModalVariant
+  /** Role receiving the action (absent when it does not depend on a role, e.g. votes or the sheriff) */
+  role?: RoleType
+  payload: z.ZodType
+  response: z.ZodType
+  component: Component
+  /** Deprecated direct command answering the same action */
+  command?: EventType
+  /** Granted to a player who just died: being dead does not stop them answering */
+  afterDeath?: boolean
+}
+
+export const ACTIONS: Record<ActionType, ActionDefinition> = {
+  seer_vision: {
+    title: 'Vision de la Voyante',
+    label: 'Vision de la voyante',
+    variant: 'purple',
+    role: 'seer',
+    payload: S.SeerVisionPayloadSchema,
+    response: S.SeerVisionResponseSchema,
+    component: defineAsyncComponent(() => import('@/components/game/actions/SeerAction.vue')),
+    command: 'seer_action',
+  },
+  werewolf_vote: {
+    title: 'Vote des Loups-Garous',
+    label: 'Vote des loups',
+    variant: 'danger',
+    role: 'werewolf',
+    payload: S.WerewolfVotePayloadSchema,
+    response: S.WerewolfVoteResponseSchema,
+    component: defineAsyncComponent(() => import('@/components/game/actions/WerewolfAction.vue')),
+    command: 'werewolf_vote',
+  },
+  witch_potion: {
+    title: 'Potions de la Sorcière',
+    label: 'Action de la sorcière',
+    variant: 'purple',
+    role: 'witch',
+    payload: S.WitchPotionPayloadSchema,
+    response: S.WitchPotionResponseSchema,
+    component: defineAsyncComponent(() => import('@/components/game/actions/WitchAction.vue')),
+    command: 'witch_action',
+  },
+  village_vote: {
+    title: 'Vote du Village',
+    label: 'Vote du village',
+    variant: 'blue',
+    payload: S.VillageVotePayloadSchema,
+    response: S.VillageVoteResponseSchema,
+    component: defineAsyncComponent(() => import('@/components/game/actions/VillageAction.vue')),
+    command: 'village_vote',
+  },
+  cupid_link: {
+    title: 'Flèche de Cupidon',
+    label: 'Flèche de Cupidon',
+    variant: 'pink',
+    role: 'cupid',
+    payload: S.CupidLinkPayloadSchema,
+    response: S.CupidLinkResponseSchema,
+    component: defineAsyncComponent(() => import('@/components/game/actions/CupidAction.vue')),
+  },
+  hunter_shot: {
+    title: 'Dernier tir du Chasseur',
+    label: 'Tir du chasseur',
+    variant: 'warning',
+    role: 'hunter',
+    payload: S.HunterShotPayloadSchema,
+    response: S.HunterShotResponseSchema,
+    component: defineAsyncComponent(() => import('@/components/game/actions/HunterAction.vue')),
+    afterDeath: true,
+  },
+  guard_protect: {
+    title: 'Protection du Salvateur',
+    label: 'Protection du salvateur',
+    variant: 'blue',
+    role: 'guard',
+    payload: S.GuardProtectPayloadSchema,
+    response: S.GuardProtectResponseSchema,
+    component: defineAsyncComponent(() => import('@/components/game/actions/GuardAction.vue')),
+  },
+  sheriff_election: {
+    title: 'Élection du Shérif',
+    label: 'Élection du shérif',
+    variant: 'warning',
+    payload: S.SheriffElectionPayloadSchema,
+    response: S.SheriffElectionResponseSchema,
+    component: defineAsyncComponent(() => import('@/components/game/actions/SheriffElectionAction.vue')),
+  },
+  sheriff_tiebreak: {
+    title: 'Départage du Shérif',
+    label: 'Départage du shérif',
+    variant: 'warning',
+    payload: S.SheriffTiebreakPayloadSchema,
+    response: S.SheriffTiebreakResponseSchema,
+    component: defineAsyncComponent(() => import('@/components/game/actions/SheriffTiebreakAction.vue')),
+  },
+  sheriff_succession: {
+    title: 'Succession du Shérif',
+    label: 'Succession du shérif',
+    variant: 'warning',
+    payload: S.SheriffSuccessionPayloadSchema,
+    response: S.SheriffSuccessionResponseSchema,
+    component: defineAsyncComponent(() => import('@/components/game/actions/SheriffSuccessionAction.vue')),
+    afterDeath: true,
+  },
+}
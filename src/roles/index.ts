@@ -0,0 +1,71 @@
+/**
+ * Role and action registries, and what the app derives from them
+ */
+
+import type { PlayersDetailsData } from '@/types/events'
+import type { PlayerID } from '@/types/player'
+import type { RoleType } from '@/types/roles'
+import type { ChatChannel } from '@/types/ui'
+import { ROLES, type RoleDefinition } from './roles'
+
+export * from './roles'
+export * from './actions'
+
+/** Registered roles, in declaration order */
+export const ROLE_TYPES = Object.keys(ROLES) as RoleType[]
+
+/** The sheriff's vote counts double in the village vote */
+export const SHERIFF_VOTE_WEIGHT = 2
+
+/** Roles woken up each night, in turn order */
+export const NIGHT_ORDER: RoleType[] = ROLE_TYPES
+  .filter(role => ROLES[role].nightOrder !== undefined)
+  .sort((a, b) => ROLES[a].nightOrder! - ROLES[b].nightOrder!)
+
+/**
+ * Definition of a role, or null for a role this client does not know
+ */
+export function roleOf(role: string | null | undefined): RoleDefinition | null {
+  return role && role in ROLES ? ROLES[role as RoleType] : null
+}
+
+export function roleName(role: string | null | undefined): string {
+  return roleOf(role)?.name ?? role ?? 'Inconnu'
+}
+
+export function roleColor(role: string | null | undefined): string {
+  return roleOf(role)?.color ?? 'text-gray-400'
+}
+
+/** Chat channels a role can read */
+export function readableChannels(role: RoleType | null): ChatChannel[] {
+  return roleOf(role)?.chat.read ?? ['village']
+}
+
+/** Whether a role can write to a chat channel (phase rules aside) */
+export function canWriteChannel(role: RoleType | null, channel: ChatChannel): boolean {
+  return (roleOf(role)?.chat.write ?? ['village']).includes(channel)
+}
+
+/** Weight of a player's vote in the village vote */
+export function voteWeight(voterId: PlayerID, sheriffId: PlayerID | null | undefined): number {
+  return voterId === sheriffId ? SHERIFF_VOTE_WEIGHT : 1
+}
+
+/**
+ * Players a role may target during its night turn
+ */
+export function nightTargetsOf(role: RoleType, living: PlayersDetailsData[], selfId: PlayerID | null): PlayersDetailsData[] {
+  const definition = ROLES[role]
+  switch (definition.nightTargets) {
+    case 'others':
+      return living.filter(p => p.id !== selfId)
+    case 'outside_clan':
+      // Hidden roles are outside the clan as far as this player knows
+      return living.filter(p => roleOf(p.role)?.clan !== definition.clan)
+    case 'anyone':
+      return living
+    default:
+      return []
+  }
+}
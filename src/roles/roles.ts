@@ -0,0 +1,140 @@
+/**
+ * Role registry
+ *
+ * Everything the client knows about a role. Adding a role means adding it to
+ * RoleTypeSchema and describing it here; the rest of the app reads this table.
+ */
+
+import type { ActionType } from '@/types/actions'
+import type { Clan } from '@/types/events'
+import type { RoleType } from '@/types/roles'
+import type { ChatChannel, ModalVariant } from '@/types/ui'
+
+/** Players a role may target during its night turn (legacy turn system) */
+export type NightTargets = 'others' | 'outside_clan' | 'anyone'
+
+export interface RoleDefinition {
+  /** Display name */
+  name: string
+  /** Text color class */
+  color: string
+  /** Badge classes (text, border, background) */
+  badge: string
+  icon: string
+  /** Modal color of its actions */
+  variant: ModalVariant
+  clan: Clan
+  /** Most players who may hold the role in a game (no limit when absent) */
+  maxCount?: number
+  /** Chat channels the role can read and write (phase rules aside) */
+  chat: {
+    read: ChatChannel[]
+    write: ChatChannel[]
+  }
+  /** Rank of its turn during the night; absent when the role sleeps */
+  nightOrder?: number
+  /** Woken up on the first night only */
+  firstNightOnly?: boolean
+  /** Label of its night turn */
+  turnLabel?: string
+  /** Action the role receives during its turn */
+  action?: ActionType
+  nightTargets?: NightTargets
+}
+
+export const ROLES: Record<RoleType, RoleDefinition> = {
+  villager: {
+    name: 'Villageois',
+    color: 'text-blue-400',
+    badge: 'text-blue-300 border-blue-700 bg-blue-950/60',
+    icon: '🧑‍🌾',
+    variant: 'blue',
+    clan: 'villager',
+    chat: { read: ['village'], write: ['village'] },
+  },
+  werewolf: {
+    name: 'Loup-Garou',
+    color: 'text-red-500',
+    badge: 'text-red-300 border-red-700 bg-red-950/60',
+    icon: '🐺',
+    variant: 'danger',
+    clan: 'werewolf',
+    chat: { read: ['village', 'werewolf'], write: ['village', 'werewolf'] },
+    // After the seer and the guard, before the witch who needs their victim
+    nightOrder: 3,
+    turnLabel: 'Tour des Loups-Garous',
+    action: 'werewolf_vote',
+    nightTargets: 'outside_clan',
+  },
+  seer: {
+    name: 'Voyante',
+    color: 'text-purple-400',
+    badge: 'text-purple-300 border-purple-700 bg-purple-950/60',
+    icon: '🔮',
+    variant: 'purple',
+    clan: 'villager',
+    maxCount: 1,
+    chat: { read: ['village'], write: ['village'] },
+    nightOrder: 1,
+    turnLabel: 'Tour de la Voyante',
+    action: 'seer_vision',
+    nightTargets: 'others',
+  },
+  witch: {
+    name: 'Sorcière',
+    color: 'text-green-400',
+    badge: 'text-green-300 border-green-700 bg-green-950/60',
+    icon: '🧪',
+    variant: 'green',
+    clan: 'villager',
+    maxCount: 1,
+    chat: { read: ['village'], write: ['village'] },
+    nightOrder: 4,
+    turnLabel: 'Tour de la Sorcière',
+    action: 'witch_potion',
+    nightTargets: 'anyone',
+  },
+  cupid: {
+    name: 'Cupidon',
+    color: 'text-pink-400',
+    badge: 'text-pink-300 border-pink-700 bg-pink-950/60',
+    icon: '💘',
+    variant: 'pink',
+    clan: 'villager',
+    maxCount: 1,
+    chat: { read: ['village'], write: ['village'] },
+    // Lovers are linked before anyone else wakes up
+    nightOrder: 0,
+    firstNightOnly: true,
+    turnLabel: 'Tour de Cupidon',
+    action: 'cupid_link',
+    nightTargets: 'anyone',
+  },
+  hunter: {
+    name: 'Chasseur',
+    color: 'text-amber-400',
+    badge: 'text-amber-300 border-amber-700 bg-amber-950/60',
+    icon: '🏹',
+    variant: 'warning',
+    clan: 'villager',
+    maxCount: 1,
+    chat: { read: ['village'], write: ['village'] },
+    // No night turn: the game waits for their shot when they die
+    turnLabel: 'Dernier tir du Chasseur',
+  },
+  guard: {
+    name: 'Salvateur',
+    color: 'text-cyan-400',
+    badge: 'text-cyan-300 border-cyan-700 bg-cyan-950/60',
+    icon: '🛡️',
+    variant: 'blue',
+    clan: 'villager',
+    maxCount: 1,
+    chat: { read: ['village'], write: ['village'] },
+    // Protects before the werewolves attack
+    nightOrder: 2,
+    turnLabel: 'Tour du Salvateur',
+    // No nightTargets: last night's protégé is excluded, which only guard_protect's payload knows
+    action: 'guard_protect',
+  },
+}
@@ -1,6 +1,7 @@
 // router/index.ts
 import { createRouter, createWebHistory } from 'vue-router'
 import { userManager } from '@/oidc' // Importez votre instance
+import { isMockServerEnabled } from '@/mock/config'
 
 import HomeView from '@/views/HomeView.vue'
 import PlayView from "@/views/PlayView.vue";
@@ -37,6 +38,14 @@ const router = createRouter({
       name: 'account',
       component: HomeView,
     },
+    // Relecture d'un journal de session (développement uniquement)
+    ...(import.meta.env.DEV
+      ? [{
+          path: '/replay',
+          name: 'replay',
+          component: () => import('@/views/ReplayView.vue'),
+        }]
+      : []),
     // La route de callback
     {
       path: "/oidc-callback",
@@ -47,8 +56,8 @@ const router = createRouter({
 })
 
 router.beforeEach(async (to, from, next) => {
-  // Vérification si la route nécessite une auth
-  if (to.matched.some(r => r.meta.requiresAuth)) {
+  // Vérification si la route nécessite une auth (pas d'OIDC avec le serveur simulé)
+  if (to.matched.some(r => r.meta.requiresAuth) && !isMockServerEnabled) {
     const user = await userManager.getUser();
 
     // Si pas d'utilisateur ou token expiré
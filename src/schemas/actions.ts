@@ -0,0 +1,186 @@
+/**
+ * Action system schemas
+ * Maps to backend: internal/domain/entities/action.go and actions/
+ */
+
+import { z } from 'zod'
+import { IsoDateSchema, PlayerIDSchema } from './common'
+
+export const ActionIDSchema = z.string().min(1)
+
+export const ActionTypeSchema = z.enum([
+  'seer_vision',
+  'werewolf_vote',
+  'witch_potion',
+  'village_vote',
+  'cupid_link',
+  'hunter_shot',
+  'guard_protect',
+  'sheriff_election',
+  'sheriff_tiebreak',
+  'sheriff_succession',
+])
+
+export const ActionStatusSchema = z.enum(['pending', 'completed', 'expired', 'cancelled'])
+
+// ============================================================================
+// Action Payloads (Server → Client)
+// ============================================================================
+
+export const SeerVisionPayloadSchema = z.object({
+  eligibleTargets: z.array(PlayerIDSchema),
+})
+
+export const WerewolfVotePayloadSchema = z.object({
+  eligibleTargets: z.array(PlayerIDSchema),
+})
+
+export const WitchPotionPayloadSchema = z.object({
+  victimId: PlayerIDSchema.nullish(), // Player killed by werewolves (null if none)
+  hasHealPotion: z.boolean(),
+  hasPoisonPotion: z.boolean(),
+})
+
+export const VillageVotePayloadSchema = z.object({
+  eligibleTargets: z.array(PlayerIDSchema),
+})
+
+// First night only: Cupid picks two players who become lovers
+export const CupidLinkPayloadSchema = z.object({
+  eligibleTargets: z.array(PlayerIDSchema),
+})
+
+// Granted to the hunter on their death, while the game waits for their shot
+export const HunterShotPayloadSchema = z.object({
+  eligibleTargets: z.array(PlayerIDSchema),
+})
+
+// The player protected last night cannot be protected again tonight
+export const GuardProtectPayloadSchema = z.object({
+  eligibleTargets: z.array(PlayerIDSchema),
+  previousTargetId: PlayerIDSchema.nullish(),
+})
+
+// Day 1: every living player votes for the sheriff
+export const SheriffElectionPayloadSchema = z.object({
+  eligibleTargets: z.array(PlayerIDSchema),
+})
+
+// The village vote is tied: the sheriff picks among the tied players
+export const SheriffTiebreakPayloadSchema = z.object({
+  eligibleTargets: z.array(PlayerIDSchema),
+})
+
+// Granted to the sheriff on their death, to name a successor
+export const SheriffSuccessionPayloadSchema = z.object({
+  eligibleTargets: z.array(PlayerIDSchema),
+})
+
+export const ActionPayloadSchema = z.union([
+  SeerVisionPayloadSchema,
+  WerewolfVotePayloadSchema,
+  WitchPotionPayloadSchema,
+  VillageVotePayloadSchema,
+  CupidLinkPayloadSchema,
+  HunterShotPayloadSchema,
+  GuardProtectPayloadSchema,
+  SheriffElectionPayloadSchema,
+  SheriffTiebreakPayloadSchema,
+  SheriffSuccessionPayloadSchema,
+])
+
+// ============================================================================
+// Action Event Data (Server → Client)
+// ============================================================================
+
+const actionCreatedFields = {
+  actionId: ActionIDSchema,
+  expiresAt: IsoDateSchema,
+  timeout: z.number().nonnegative(), // Timeout in seconds for UI display
+}
+
+/** The payload shape depends on the action type */
+export const ActionCreatedEventDataSchema = z.discriminatedUnion('type', [
+  z.object({ ...actionCreatedFields, type: z.literal('seer_vision'), payload: SeerVisionPayloadSchema }),
+  z.object({ ...actionCreatedFields, type: z.literal('werewolf_vote'), payload: WerewolfVotePayloadSchema }),
+  z.object({ ...actionCreatedFields, type: z.literal('witch_potion'), payload: WitchPotionPayloadSchema }),
+  z.object({ ...actionCreatedFields, type: z.literal('village_vote'), payload: VillageVotePayloadSchema }),
+  z.object({ ...actionCreatedFields, type: z.literal('cupid_link'), payload: CupidLinkPayloadSchema }),
+  z.object({ ...actionCreatedFields, type: z.literal('hunter_shot'), payload: HunterShotPayloadSchema }),
+  z.object({ ...actionCreatedFields, type: z.literal('guard_protect'), payload: GuardProtectPayloadSchema }),
+  z.object({ ...actionCreatedFields, type: z.literal('sheriff_election'), payload: SheriffElectionPayloadSchema }),
+  z.object({ ...actionCreatedFields, type: z.literal('sheriff_tiebreak'), payload: SheriffTiebreakPayloadSchema }),
+  z.object({ ...actionCreatedFields, type: z.literal('sheriff_succession'), payload: SheriffSuccessionPayloadSchema }),
+])
+
+export const ActionExpiredEventDataSchema = z.object({
+  actionId: ActionIDSchema,
+  type: ActionTypeSchema,
+})
+
+// ============================================================================
+// Action Responses (Client → Server)
+// ============================================================================
+
+export const SeerVisionResponseSchema = z.object({
+  targetId: PlayerIDSchema,
+})
+
+export const WerewolfVoteResponseSchema = z.object({
+  targetId: PlayerIDSchema.nullish(), // null to abstain
+})
+
+export const WitchPotionResponseSchema = z.object({
+  healTargetId: PlayerIDSchema.nullish(), // Player to heal (must be victim)
+  poisonTargetId: PlayerIDSchema.nullish(),
+})
+
+export const VillageVoteResponseSchema = z.object({
+  targetId: PlayerIDSchema.nullish(), // null to abstain
+})
+
+export const CupidLinkResponseSchema = z.object({
+  firstTargetId: PlayerIDSchema,
+  secondTargetId: PlayerIDSchema,
+}).refine((response) => response.firstTargetId !== response.secondTargetId, {
+  message: 'Two different players are needed',
+})
+
+export const HunterShotResponseSchema = z.object({
+  targetId: PlayerIDSchema,
+})
+
+export const GuardProtectResponseSchema = z.object({
+  targetId: PlayerIDSchema,
+})
+
+export const SheriffElectionResponseSchema = z.object({
+  targetId: PlayerIDSchema.nullish(), // null to abstain
+})
+
+export const SheriffTiebreakResponseSchema = z.object({
+  targetId: PlayerIDSchema,
+})
+
+export const SheriffSuccessionResponseSchema = z.object({
+  targetId: PlayerIDSchema,
+})
+
+// Strict members: a loose one with only optional fields would match (and strip) any response
+export const ActionResponseSchema = z.union([
+  SeerVisionResponseSchema.strict(),
+  WerewolfVoteResponseSchema.strict(),
+  WitchPotionResponseSchema.strict(),
+  VillageVoteResponseSchema.strict(),
+  CupidLinkResponseSchema.strict(),
+  HunterShotResponseSchema.strict(),
+  GuardProtectResponseSchema.strict(),
+  SheriffElectionResponseSchema.strict(),
+  SheriffTiebreakResponseSchema.strict(),
+  SheriffSuccessionResponseSchema.strict(),
+])
+
+export const ActionResponseEventDataSchema = z.object({
+  actionId: ActionIDSchema,
+  response: ActionResponseSchema,
+})
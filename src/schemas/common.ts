@@ -0,0 +1,26 @@
+/**
+ * Shared schemas (identifiers and enums used across events)
+ * TypeScript types in src/types are derived from these schemas with z.infer.
+ */
+
+import { z } from 'zod'
+
+export const PlayerIDSchema = z.string().min(1)
+
+export const GameIDSchema = z.string().min(1)
+
+export const RoleTypeSchema = z.enum(['villager', 'werewolf', 'seer', 'witch', 'cupid', 'hunter', 'guard'])
+
+export const GamePhaseSchema = z.enum(['start', 'day', 'night', 'vote'])
+
+export const GameStatusSchema = z.enum(['waiting', 'active', 'ended'])
+
+export const ConnectionStateSchema = z.enum(['connected', 'disconnected', 'reconnecting', 'inactive'])
+
+/** Clan types for win conditions */
+export const ClanSchema = z.enum(['werewolf', 'villager', 'lovers', 'none'])
+
+/** ISO 8601 timestamp sent as a string */
+export const IsoDateSchema = z.string().refine((value) => !Number.isNaN(Date.parse(value)), {
+  message: 'Expected an ISO 8601 date',
+})
@@ -0,0 +1,247 @@
+/**
+ * WebSocket event payload schemas
+ * TypeScript types in src/types/events.ts are derived from these schemas with z.infer.
+ */
+
+import { z } from 'zod'
+import {
+  ClanSchema,
+  ConnectionStateSchema,
+  GameIDSchema,
+  GamePhaseSchema,
+  GameStatusSchema,
+  PlayerIDSchema,
+  RoleTypeSchema,
+} from './common'
+import { ActionCreatedEventDataSchema } from './actions'
+
+// ========================
+// EXISTING DATA SCHEMAS
+// ========================
+
+export const GameSettingsSchema = z.object({
+  roles: z.partialRecord(RoleTypeSchema, z.number().int().nonnegative()),
+})
+
+export const GameSettingsEventDataSchema = z.object({
+  roles: z.partialRecord(RoleTypeSchema, z.number().int().nonnegative()),
+})
+
+export const PlayersDetailsDataSchema = z.object({
+  id: PlayerIDSchema,
+  username: z.string(),
+  alive: z.boolean(),
+  role: RoleTypeSchema.nullish(),
+  target: PlayerIDSchema.nullish(),
+  connection_state: ConnectionStateSchema,
+})
+
+export const GameDataEventDataSchema = z.object({
+  id: GameIDSchema,
+  status: GameStatusSchema,
+  phase: GamePhaseSchema,
+  day: z.number().int().nonnegative(),
+  players: z.array(PlayersDetailsDataSchema),
+  host: PlayerIDSchema,
+  settings: GameSettingsSchema,
+  sheriff: PlayerIDSchema.nullish(),  // Elected on day 1, their vote counts double
+})
+
+export const ChatMessageEventSchema = z.object({
+  playerID: PlayerIDSchema,
+  nickname: z.string().optional(),
+  message: z.string(),
+  channel: z.string(),
+})
+
+export const ConnectionEventSchema = z.object({
+  player: PlayerIDSchema,
+})
+
+export const DisconnectionEventSchema = z.object({
+  player: PlayerIDSchema,
+})
+
+export const ReconnectionEventDataSchema = z.object({
+  player: PlayerIDSchema,
+})
+
+export const InactiveEventDataSchema = z.object({
+  player: PlayerIDSchema,
+})
+
+export const HostChangeEventDataSchema = z.object({
+  host: PlayerIDSchema,
+})
+
+export const PingEventDataSchema = z.object({
+  id: z.string(),       // Client-generated ping ID, echoed back in the pong
+  sentAt: z.number(),   // Client timestamp (ms)
+})
+
+export const PongEventDataSchema = z.object({
+  id: z.string(),
+  sentAt: z.number(),
+})
+
+export const AuthEventDataSchema = z.object({
+  token: z.string(),    // OIDC access token, kept out of the URL
+})
+
+// ========================
+// NEW GAME FLOW SCHEMAS
+// ========================
+
+export const TimerStatusSchema = z.enum(['started', 'tick', 'expired', 'skipped'])
+
+export const TimerEventDataSchema = z.object({
+  phase: GamePhaseSchema,
+  roleType: RoleTypeSchema.optional(),  // For night phase, which role's turn
+  duration: z.number().nonnegative(),   // Total duration in seconds
+  remaining: z.number(),                // Remaining time in seconds
+  status: TimerStatusSchema,
+})
+
+export const TurnEventDataSchema = z.object({
+  roleType: RoleTypeSchema,                  // Which role should act
+  targetPlayerId: PlayerIDSchema.optional(), // For witch: who the werewolves attacked
+  canHeal: z.boolean().optional(),
+  canPoison: z.boolean().optional(),
+})
+
+export const VoteEventTypeSchema = z.enum(['start', 'player', 'end'])
+
+export const VoteEventDataSchema = z.object({
+  type: VoteEventTypeSchema,
+  player: PlayerIDSchema.optional(),  // Who voted (for 'player' type)
+  target: PlayerIDSchema.optional(),  // Who was voted for / eliminated
+})
+
+export const DayEventDataSchema = z.object({
+  day: z.number().int().nonnegative(),
+})
+
+// Empty - just a phase transition signal
+export const NightEventDataSchema = z.object({})
+
+// Deaths without a cause are the usual ones (werewolves, poison, village vote)
+export const DeathCauseSchema = z.enum(['grief', 'hunter_shot'])
+
+export const DeathEventDataSchema = z.object({
+  victim: PlayerIDSchema,
+  role: RoleTypeSchema,
+  cause: DeathCauseSchema.optional(),
+})
+
+// Sent before the day when the werewolves' victim was protected (who stays secret)
+export const AttackBlockedEventDataSchema = z.object({})
+
+export const SheriffChangeSchema = z.enum(['election', 'succession'])
+
+// A null sheriff: the dying sheriff named nobody
+export const SheriffEventDataSchema = z.object({
+  sheriffId: PlayerIDSchema.nullable(),
+  reason: SheriffChangeSchema,
+})
+
+export const WinEventDataSchema = z.object({
+  winningClan: ClanSchema,
+  winners: z.array(PlayerIDSchema),
+})
+
+export const RoleRevealEventDataSchema = z.object({
+  role: RoleTypeSchema,
+})
+
+export const SeerRevealEventDataSchema = z.object({
+  targetId: PlayerIDSchema,
+  roleType: RoleTypeSchema,
+})
+
+// Sent to the two lovers (and to Cupid) once Cupid has linked them
+export const LoversSchema = z.tuple([PlayerIDSchema, PlayerIDSchema])
+
+export const LoversRevealEventDataSchema = z.object({
+  lovers: LoversSchema,
+})
+
+// ========================
+// RESYNC SCHEMAS
+// ========================
+
+export const ResyncEventDataSchema = z.object({
+  lastSeq: z.number().int().nonnegative(),  // Last sequence number applied by the client
+})
+
+// Sent when the missed events can no longer be replayed; its envelope seq is the state's seq
+export const SnapshotEventDataSchema = z.object({
+  game: GameDataEventDataSchema,
+  myRole: RoleTypeSchema.nullable(),
+  timer: TimerEventDataSchema.nullable(),
+  pendingActions: z.array(ActionCreatedEventDataSchema),
+  lovers: LoversSchema.nullish(),  // Only for the players who know them
+})
+
+// ========================
+// ERROR AND ACK SCHEMAS
+// ========================
+
+export const ERROR_CODES = [
+  'WRONG_PHASE',
+  'NOT_YOUR_TURN',
+  'ALREADY_ACTED',
+  'GAME_NOT_ACTIVE',
+  'PLAYER_DEAD',
+  'WRONG_ROLE',
+  'INVALID_TARGET',
+  'TARGET_DEAD',
+  'CANNOT_TARGET_SELF',
+  'ABILITY_USED',
+  'CAN_ONLY_HEAL_VICTIM',
+  'SAME_PROTECT_TARGET',
+  'VOTE_NOT_FOUND',
+  'VOTE_NOT_ACTIVE',
+  'INVALID_VOTER',
+  'INVALID_ACTION',
+  'UNKNOWN_ERROR',
+] as const
+
+// A code added on the backend must not hide the error itself
+export const ErrorCodeSchema = z.enum(ERROR_CODES).catch('UNKNOWN_ERROR')
+
+export const ErrorEventDataSchema = z.object({
+  code: ErrorCodeSchema,
+  message: z.string(),
+  action: z.string().optional(),     // The action that caused the error
+  requestId: z.string().optional(),  // Request ID of the command that caused the error
+})
+
+export const AckEventDataSchema = z.object({
+  action: z.string(),
+  success: z.boolean(),
+  message: z.string().optional(),
+  requestId: z.string().optional(),  // Request ID of the acknowledged command
+})
+
+// ========================
+// ACTION SCHEMAS (Client → Server)
+// ========================
+
+export const StartGameActionDataSchema = z.object({})
+
+export const VillageVoteActionDataSchema = z.object({
+  targetId: PlayerIDSchema.nullable(),  // null = abstain
+})
+
+export const SeerActionDataSchema = z.object({
+  targetId: PlayerIDSchema,
+})
+
+export const WerewolfVoteActionDataSchema = z.object({
+  targetId: PlayerIDSchema.nullable(),  // null = abstain
+})
+
+export const WitchActionDataSchema = z.object({
+  healTargetId: PlayerIDSchema.optional(),
+  poisonTargetId: PlayerIDSchema.optional(),
+})
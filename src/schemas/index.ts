@@ -0,0 +1,11 @@
+/**
+ * Runtime schemas for the WebSocket protocol
+ */
+
+export * from './common'
+export * from './events'
+export * from './actions'
+export * from './registry'
+export * from './journal'
+export * from './knowledge'
+export * from './notebook'
@@ -0,0 +1,35 @@
+/**
+ * Session journal schema
+ *
+ * A journal is a recording of every event a client received and sent during a game,
+ * downloaded from the game view and loaded back in the replay view.
+ */
+
+import { z } from 'zod'
+import type { Event } from '@/types/events'
+import { IsoDateSchema } from './common'
+
+export const JOURNAL_VERSION = 1
+
+// Only the envelope is checked here: inbound events are validated again when replayed
+const JournalEventSchema = z.custom<Event<unknown>>(
+  (value) => typeof value === 'object' && value !== null
+    && typeof (value as Record<string, unknown>).channel === 'string'
+    && typeof (value as Record<string, unknown>).type === 'string',
+  { message: 'Expected an event with a channel and a type' }
+)
+
+export const JournalEntrySchema = z.object({
+  offset: z.number().nonnegative(),   // ms since the start of the recording
+  direction: z.enum(['inbound', 'outbound']),
+  event: JournalEventSchema,
+})
+
+export const SessionJournalSchema = z.object({
+  version: z.literal(JOURNAL_VERSION),
+  gameId: z.string(),
+  playerId: z.string().nullable(),
+  startedAt: IsoDateSchema,
+  truncated: z.boolean(),             // The recording stopped at its size limit
+  entries: z.array(JournalEntrySchema),
+})
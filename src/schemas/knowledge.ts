@@ -0,0 +1,19 @@
+/**
+ * Role knowledge schema
+ *
+ * Roles the current player has learned during a game (seer visions, deaths),
+ * kept in sessionStorage so a page reload does not forget them.
+ */
+
+import { z } from 'zod'
+import { PlayerIDSchema, RoleTypeSchema } from './common'
+
+export const RoleKnowledgeSourceSchema = z.enum(['seer', 'death'])
+
+export const KnownRoleSchema = z.object({
+  role: RoleTypeSchema,
+  source: RoleKnowledgeSourceSchema,
+  day: z.number().int().nonnegative(),   // Game day when the role was learned
+})
+
+export const KnownRolesSchema = z.record(PlayerIDSchema, KnownRoleSchema)
@@ -0,0 +1,19 @@
+/**
+ * Notebook schema
+ *
+ * Private notes a player keeps about the others during a game. They live in
+ * localStorage only and are never sent to the server.
+ */
+
+import { z } from 'zod'
+import { IsoDateSchema, PlayerIDSchema } from './common'
+
+export const SuspicionLevelSchema = z.enum(['trust', 'neutral', 'suspect', 'wolf'])
+
+export const PlayerNoteSchema = z.object({
+  text: z.string(),
+  suspicion: SuspicionLevelSchema,
+  updatedAt: IsoDateSchema,
+})
+
+export const NotebookSchema = z.record(PlayerIDSchema, PlayerNoteSchema)
@@ -0,0 +1,170 @@
+/**
+ * Incoming event validation
+ *
+ * Every event received from the server is checked against the schema registered
+ * for its channel and type before it reaches the dispatchers.
+ */
+
+import { z } from 'zod'
+import type { Event, EventChannel, EventType } from '@/types/events'
+import {
+  AckEventDataSchema,
+  AttackBlockedEventDataSchema,
+  ChatMessageEventSchema,
+  ConnectionEventSchema,
+  DayEventDataSchema,
+  DeathEventDataSchema,
+  DisconnectionEventSchema,
+  ErrorEventDataSchema,
+  GameDataEventDataSchema,
+  GameSettingsEventDataSchema,
+  HostChangeEventDataSchema,
+  InactiveEventDataSchema,
+  NightEventDataSchema,
+  PongEventDataSchema,
+  ReconnectionEventDataSchema,
+  SnapshotEventDataSchema,
+  RoleRevealEventDataSchema,
+  SeerRevealEventDataSchema,
+  SheriffEventDataSchema,
+  LoversRevealEventDataSchema,
+  TimerEventDataSchema,
+  TurnEventDataSchema,
+  VoteEventDataSchema,
+  WinEventDataSchema,
+} from './events'
+import { ActionCreatedEventDataSchema, ActionExpiredEventDataSchema } from './actions'
+
+type ChannelSchemas = Partial<Record<EventType, z.ZodType>>
+
+// Command replies may come back on the channel the command was sent on
+const REPLY_SCHEMAS = {
+  error: ErrorEventDataSchema,
+  ack: AckEventDataSchema,
+}
+
+/**
+ * Schema of every server → client event, by channel then type
+ * (kept literal: the typed event registry derives its payload types from it)
+ */
+export const INCOMING_EVENT_SCHEMAS = {
+  game_event: {
+    chat_message: ChatMessageEventSchema,
+    game_data: GameDataEventDataSchema,
+    day: DayEventDataSchema,
+    night: NightEventDataSchema,
+    vote: VoteEventDataSchema,
+    death: DeathEventDataSchema,
+    attack_blocked: AttackBlockedEventDataSchema,
+    sheriff: SheriffEventDataSchema,
+    win: WinEventDataSchema,
+    role_reveal: RoleRevealEventDataSchema,
+    seer_reveal: SeerRevealEventDataSchema,
+    lovers_reveal: LoversRevealEventDataSchema,
+    turn: TurnEventDataSchema,
+    ...REPLY_SCHEMAS,
+  },
+  settings_event: {
+    settings: GameSettingsEventDataSchema,
+    ...REPLY_SCHEMAS,
+  },
+  timer_event: {
+    timer: TimerEventDataSchema,
+  },
+  action_event: {
+    action_created: ActionCreatedEventDataSchema,
+    action_expired: ActionExpiredEventDataSchema,
+    ...REPLY_SCHEMAS,
+  },
+  conn_event: {
+    host_change: HostChangeEventDataSchema,
+    connection: ConnectionEventSchema,
+    disconnection: DisconnectionEventSchema,
+    reconnection: ReconnectionEventDataSchema,
+    inactive: InactiveEventDataSchema,
+    pong: PongEventDataSchema,
+    snapshot: SnapshotEventDataSchema,
+    ...REPLY_SCHEMAS,
+  },
+} satisfies Record<EventChannel, ChannelSchemas>
+
+const EnvelopeSchema = z.object({
+  channel: z.string(),
+  type: z.string(),
+  data: z.unknown(),
+  requestId: z.string().optional(),
+  seq: z.number().int().nonnegative().optional(),
+})
+
+/**
+ * Why an incoming event was rejected
+ */
+export interface EventDiagnostic {
+  channel: string
+  type: string
+  /** Failing field, e.g. "data.players[2].connection_state" */
+  field: string
+  reason: string
+  /** The event as received */
+  message: unknown
+  receivedAt: number
+}
+
+export type EventValidationResult =
+  | { valid: true; event: Event<unknown> }
+  | { valid: false; diagnostic: EventDiagnostic }
+
+function formatPath(path: PropertyKey[]): string {
+  return path.reduce<string>((result, key) => {
+    if (typeof key === 'number') return `${result}[${key}]`
+    return result ? `${result}.${String(key)}` : String(key)
+  }, '')
+}
+
+function reject(message: unknown, channel: string, type: string, field: string, reason: string): EventValidationResult {
+  return {
+    valid: false,
+    diagnostic: { channel, type, field, reason, message, receivedAt: Date.now() },
+  }
+}
+
+/**
+ * Check an incoming message against its schema.
+ * On success the returned event carries the parsed data (unknown fields stripped).
+ */
+export function validateIncomingEvent(message: unknown): EventValidationResult {
+  const envelope = EnvelopeSchema.safeParse(message)
+  if (!envelope.success) {
+    const issue = envelope.error.issues[0]
+    return reject(message, '?', '?', formatPath(issue?.path ?? []), issue?.message ?? 'Invalid envelope')
+  }
+
+  const { channel, type, data, requestId, seq } = envelope.data
+  const channelSchemas = INCOMING_EVENT_SCHEMAS[channel as EventChannel] as ChannelSchemas | undefined
+  if (!channelSchemas) {
+    return reject(message, channel, type, 'channel', `Unknown channel "${channel}"`)
+  }
+  const schema = channelSchemas[type as EventType]
+  if (!schema) {
+    return reject(message, channel, type, 'type', `No schema for type "${type}" on ${channel}`)
+  }
+
+  const parsed = schema.safeParse(data)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    return reject(message, channel, type, formatPath(['data', ...(issue?.path ?? [])]), issue?.message ?? 'Invalid data')
+  }
+
+  return {
+    valid: true,
+    event: { channel: channel as EventChannel, type: type as EventType, data: parsed.data, requestId, seq },
+  }
+}
+
+/**
+ * One-line summary of a diagnostic, e.g.
+ * "game_event/death → data.victim: Invalid input: expected string, received undefined"
+ */
+export function formatDiagnostic(diagnostic: EventDiagnostic): string {
+  return `${diagnostic.channel}/${diagnostic.type} → ${diagnostic.field}: ${diagnostic.reason}`
+}
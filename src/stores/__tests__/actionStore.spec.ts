@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { setActivePinia, createPinia } from 'pinia'
+import { useActionStore } from '../actionStore'
+import type { CommandRequest } from '@/composables/useRequestTracker'
+import type { OutboundMessage } from '@/composables/useWebSocket'
+import type { ActionCreatedEventData } from '@/types/actions'
+import type { AckEventData } from '@/types/events'
+import { CommandError } from '@/utils/commandError'
+
+function seerVision(actionId = 'a1', seconds = 30): ActionCreatedEventData {
+  return {
+    actionId,
+    type: 'seer_vision',
+    payload: { eligibleTargets: ['p2', 'p3'] },
+    expiresAt: new Date(Date.now() + seconds * 1000).toISOString(),
+    timeout: seconds,
+  }
+}
+
+/**
+ * Commande dont le test décide l'issue
+ */
+function command() {
+  let resolve!: (ack: AckEventData) => void
+  let reject!: (error: unknown) => void
+  const promise = new Promise<AckEventData>((res, rej) => {
+    resolve = res
+    reject = rej
+  })
+  const request = Object.assign(promise, { requestId: 'r1', delivery: {} as OutboundMessage }) as CommandRequest
+  return { request, resolve, reject }
+}
+
+// Laisse les callbacks de la commande s'exécuter
+const settle = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe('actionStore', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+  })
+
+  it('ajoute une action créée une seule fois, en attente', () => {
+    const store = useActionStore()
+
+    store.handleActionCreated(seerVision())
+    store.handleActionCreated(seerVision())
+    expect(store.queue).toHaveLength(1)
+    expect(store.currentAction?.status).toBe('pending')
+    expect(store.canSubmit('a1')).toBe(true)
+  })
+
+  it('passe par submitting puis completed quand le serveur acquitte', async () => {
+    const store = useActionStore()
+    store.handleActionCreated(seerVision())
+    const { request, resolve } = command()
+
+    store.submit('a1', { targetId: 'p2' }, request)
+    expect(store.actions.get('a1')?.status).toBe('submitting')
+    expect(store.canSubmit('a1')).toBe(false)
+
+    resolve({ requestId: 'r1', action: 'action_response', success: true })
+    await settle()
+    expect(store.actions.get('a1')?.status).toBe('completed')
+    expect(store.hasActiveAction).toBe(false)
+    expect(store.history.map(action => action.actionId)).toEqual(['a1'])
+  })
+
+  it('passe en rejected avec un message quand le serveur refuse, puis accepte une nouvelle réponse', async () => {
+    const store = useActionStore()
+    store.handleActionCreated(seerVision())
+    const { request, reject } = command()
+
+    store.submit('a1', { targetId: 'p2' }, request)
+    reject(new CommandError('rejected', 'r1', 'Cible invalide', 'INVALID_TARGET'))
+    await settle()
+
+    const action = store.actions.get('a1')
+    expect(action?.status).toBe('rejected')
+    expect(action?.error).toBeTruthy()
+    expect(store.canSubmit('a1')).toBe(true)
+  })
+
+  it("revient en attente quand la réponse n'a peut-être pas atteint le serveur", async () => {
+    const store = useActionStore()
+    store.handleActionCreated(seerVision())
+    const { request, reject } = command()
+
+    store.submit('a1', { targetId: 'p2' }, request)
+    reject(new CommandError('timeout', 'r1', 'No response'))
+    await settle()
+    expect(store.actions.get('a1')?.status).toBe('pending')
+  })
+
+  it('ignore toute transition depuis un état final', async () => {
+    const store = useActionStore()
+    store.handleActionCreated(seerVision())
+
+    store.handleActionExpired({ actionId: 'a1', type: 'seer_vision' })
+    expect(store.actions.get('a1')?.status).toBe('expired')
+
+    const { request, resolve } = command()
+    store.submit('a1', { targetId: 'p2' }, request)
+    resolve({ requestId: 'r1', action: 'action_response', success: true })
+    await settle()
+    expect(store.actions.get('a1')?.status).toBe('expired')
+    expect(store.canSubmit('a1')).toBe(false)
+  })
+
+  it('annule les actions absentes du snapshot', () => {
+    const store = useActionStore()
+    store.handleActionCreated(seerVision('a1'))
+    store.handleActionCreated(seerVision('a2'))
+
+    store.syncPending([seerVision('a2'), seerVision('a3')])
+    expect(store.actions.get('a1')?.status).toBe('cancelled')
+    expect(store.queue.map(action => action.actionId)).toEqual(['a2', 'a3'])
+  })
+
+  it("présente en premier l'action à l'échéance la plus proche", () => {
+    const store = useActionStore()
+    store.handleActionCreated(seerVision('later', 60))
+    store.handleActionCreated(seerVision('sooner', 10))
+
+    expect(store.currentAction?.actionId).toBe('sooner')
+  })
+})
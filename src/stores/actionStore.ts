@@ -0,0 +1,185 @@
+import { ref, computed, watch } from 'vue'
+import { defineStore } from 'pinia'
+import type {
+    ActionCreatedEventData,
+    ActionExpiredEventData,
+    ActionID,
+    ActionLifecycleStatus,
+    ActionResponse,
+    ActionState,
+} from '@/types/actions'
+import type { CommandRequest } from '@/composables/useRequestTracker'
+import { CommandError } from '@/utils/commandError'
+import { useServerClock } from '@/composables/useServerClock'
+import { ACTIONS } from '@/roles'
+import { getCommandErrorMessage } from '@/utils/errorMessages'
+
+// Allowed moves between statuses; any other move is ignored
+const TRANSITIONS: Record<ActionLifecycleStatus, readonly ActionLifecycleStatus[]> = {
+    pending: ['submitting', 'expired', 'cancelled'],
+    // Back to pending when the answer may not have reached the server
+    submitting: ['completed', 'rejected', 'pending', 'expired', 'cancelled'],
+    rejected: ['submitting', 'expired', 'cancelled'],
+    completed: [],
+    expired: [],
+    cancelled: [],
+}
+
+// The player can (still) answer
+const isOpen = (action: ActionState) => action.status === 'pending' || action.status === 'rejected'
+
+const isFinal = (status: ActionLifecycleStatus) => TRANSITIONS[status].length === 0
+
+export const useActionStore = defineStore('actions', () => {
+    const clock = useServerClock()
+
+    // ========================
+    // STATE
+    // ========================
+
+    // Every action of the current game, whatever its status
+    const actions = ref<Map<ActionID, ActionState>>(new Map())
+
+    // ========================
+    // COMPUTED
+    // ========================
+
+    // Actions not settled yet, soonest deadline first, with the seconds left
+    const queue = computed((): ActionState[] => {
+        return Array.from(actions.value.values())
+            .filter(action => !isFinal(action.status))
+            .map(action => ({ ...action, remainingSeconds: clock.secondsUntilServer(action.expiresAt) }))
+            .sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime())
+    })
+
+    const hasActiveAction = computed(() => queue.value.length > 0)
+
+    // Action shown to the player: the first one to answer, else the first answer in flight
+    const currentAction = computed((): ActionState | null => {
+        return queue.value.find(isOpen) ?? queue.value[0] ?? null
+    })
+
+    // Open action a dead player may still answer (e.g. the hunter's last shot)
+    const lastStandAction = computed((): ActionState | null => {
+        return queue.value.find(action => isOpen(action) && ACTIONS[action.type].afterDeath) ?? null
+    })
+
+    // Settled actions, in the order they ended
+    const history = computed((): ActionState[] => {
+        return Array.from(actions.value.values())
+            .filter(action => isFinal(action.status))
+            .sort((a, b) => (a.settledAt?.getTime() ?? 0) - (b.settledAt?.getTime() ?? 0))
+    })
+
+    // ========================
+    // ACTIONS
+    // ========================
+
+    function transition(action: ActionState, status: ActionLifecycleStatus): boolean {
+        if (!TRANSITIONS[action.status].includes(status)) return false
+        action.status = status
+        if (isFinal(status)) action.settledAt = new Date()
+        return true
+    }
+
+    function handleActionCreated(data: ActionCreatedEventData) {
+        const { actionId, type, payload, expiresAt, timeout } = data
+        if (actions.value.has(actionId)) return
+
+        actions.value.set(actionId, {
+            actionId,
+            type,
+            payload,
+            expiresAt: new Date(expiresAt),
+            timeoutSeconds: timeout,
+            remainingSeconds: timeout,
+            status: 'pending',
+            createdAt: new Date(),
+        })
+    }
+
+    function handleActionExpired(data: ActionExpiredEventData) {
+        const action = actions.value.get(data.actionId)
+        if (action) transition(action, 'expired')
+    }
+
+    /**
+     * Align with the actions a snapshot still lists: the others were dropped by the server
+     */
+    function syncPending(pending: ActionCreatedEventData[]) {
+        const pendingIds = new Set(pending.map(action => action.actionId))
+        for (const action of actions.value.values()) {
+            if (!pendingIds.has(action.actionId)) transition(action, 'cancelled')
+        }
+        pending.forEach(handleActionCreated)
+    }
+
+    /**
+     * Whether the player can answer an action (known, not answered yet, still open)
+     */
+    function canSubmit(actionId: ActionID): boolean {
+        const action = actions.value.get(actionId)
+        return !!action && isOpen(action)
+    }
+
+    /**
+     * Follow the answer sent for an action: it completes once the server acknowledges it
+     * (the request is not returned: Pinia would wrap it and drop its delivery status)
+     */
+    function submit(actionId: ActionID, response: ActionResponse, request: CommandRequest) {
+        const action = actions.value.get(actionId)
+        if (!action || !transition(action, 'submitting')) return
+
+        action.response = response
+        action.error = undefined
+
+        request.then(
+            () => transition(action, 'completed'),
+            (e) => {
+                if (e instanceof CommandError && e.reason === 'rejected') {
+                    action.error = getCommandErrorMessage(e)
+                    transition(action, 'rejected')
+                } else {
+                    transition(action, 'pending')
+                }
+            },
+        )
+    }
+
+    function reset() {
+        actions.value.clear()
+    }
+
+    // A deadline can pass without action_expired (offline, replay): close the action anyway
+    watch(clock.now, () => {
+        for (const action of actions.value.values()) {
+            if (isOpen(action) && clock.secondsUntilServer(action.expiresAt) === 0) {
+                transition(action, 'expired')
+            }
+        }
+    })
+
+    // ========================
+    // RETURN
+    // ========================
+
+    return {
+        // State
+        actions,
+
+        // Computed
+        queue,
+        hasActiveAction,
+        currentAction,
+        lastStandAction,
+        history,
+
+        // Actions
+        handleActionCreated,
+        handleActionExpired,
+        syncPending,
+        canSubmit,
+        submit,
+        reset,
+    }
+})
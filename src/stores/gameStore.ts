@@ -1,8 +1,8 @@
-import { ref, computed } from 'vue'
+import { ref, computed, watch } from 'vue'
 import { defineStore } from 'pinia'
 import type { PlayerID } from '@/types/player'
 import type { RoleType } from '@/types/roles'
-import type { GamePhase } from '@/types/game'
+import type { GameID, GamePhase } from '@/types/game'
 import type {
     GameDataEventData,
     TimerEventData,
@@ -13,18 +13,49 @@ import type {
     WinEventData,
     RoleRevealEventData,
     SeerRevealEventData,
+    LoversRevealEventData,
+    Lovers,
+    SheriffEventData,
     PlayersDetailsData,
     Clan,
     ErrorEventData,
     AckEventData,
     HostChangeEventData,
+    SnapshotEventData,
+} from '@/types/events'
+import type { ChronicleEntry, ChroniclePeriod, EliminationCause } from '@/types/chronicle'
+import type { KnownRoles, RoleKnowledgeSource } from '@/types/knowledge'
+import type { EventRegistry } from '@/composables/useEventRegistry'
+import { useServerClock } from '@/composables/useServerClock'
+import { useActionStore } from './actionStore'
+import { KnownRolesSchema } from '@/schemas'
+import { nightTargetsOf, voteWeight } from '@/roles'
+import { loadStored, saveStored } from '@/utils/storage'
+import {
+    EventChannelGameEvent,
+    EventChannelTimer,
+    EventChannelAction,
+    EventChannelConnexion,
+    EventTypeGameData,
+    EventTypeDay,
+    EventTypeNight,
+    EventTypeVote,
+    EventTypeDeath,
+    EventTypeAttackBlocked,
+    EventTypeWin,
+    EventTypeRoleReveal,
+    EventTypeSeerReveal,
+    EventTypeLoversReveal,
+    EventTypeSheriff,
+    EventTypeTurn,
+    EventTypeError,
+    EventTypeAck,
+    EventTypeTimer,
+    EventTypeActionCreated,
+    EventTypeActionExpired,
+    EventTypeGameHostChange,
+    EventTypeSnapshot,
 } from '@/types/events'
-import type {
-    ActionCreatedEventData,
-    ActionExpiredEventData,
-    ActionState,
-    ActionID,
-} from '@/types/actions'
 
 // ========================
 // GAME STORE
@@ -35,8 +66,11 @@ export const useGameStore = defineStore('game', () => {
     // STATE
     // ========================
 
-    // Timer interval for client-side countdown (not reactive, just a handle)
-    let timerIntervalId: ReturnType<typeof setInterval> | null = null
+    // Shared clock: countdowns are computed from deadlines, never decremented
+    const clock = useServerClock()
+
+    // Player actions live in their own store; this one feeds it the events
+    const actionStore = useActionStore()
 
     // Current user
     const currentUserId = ref<string | null>(null)
@@ -44,12 +78,12 @@ export const useGameStore = defineStore('game', () => {
     // Game state (from server)
     const game = ref<GameDataEventData | null>(null)
 
-    // Timer state
-    const timer = ref<{
+    // Timer state (the server sends seconds left: the deadline is kept in local time)
+    const timerState = ref<{
         phase: GamePhase
         roleType?: RoleType
         duration: number
-        remaining: number
+        endsAt: number
         active: boolean
     } | null>(null)
 
@@ -78,29 +112,46 @@ export const useGameStore = defineStore('game', () => {
     // Uses DeathEventData from events.ts
     const recentDeaths = ref<DeathEventData[]>([])
 
+    // The werewolves' attack of the night was stopped (for the dawn announcement)
+    const attackBlocked = ref(false)
+
+    // Game chronicle, grouped by night and day (kept for the whole game, unlike recentDeaths)
+    const chronicle = ref<ChroniclePeriod[]>([])
+
+    // Roles I have learned (seer visions, deaths), kept for the whole game
+    // Saved per game in sessionStorage so that a reload does not lose them
+    const knownRoles = ref<KnownRoles>({})
+    let knownRolesKey: string | null = null
+
     // My revealed role (assigned at game start)
     const myRole = ref<RoleType | null>(null)
 
+    // Lovers linked by Cupid (only known by them and by Cupid)
+    const lovers = ref<Lovers | null>(null)
+
     // Action loading states (tracks pending server responses)
     const actionLoading = ref<Record<string, boolean>>({})
 
+    // Commands in flight, keyed by request ID (value: action name)
+    // Lets two commands of the same action be told apart
+    const pendingRequests = ref<Record<string, string>>({})
+
     // Last error received (for UI feedback)
     const lastError = ref<ErrorEventData | null>(null)
 
     // Last ack received (for UI feedback)
     const lastAck = ref<AckEventData | null>(null)
 
-    // ========================
-    // NEW: Action System State
-    // ========================
-
-    // Pending actions (NEW action system)
-    const pendingActions = ref<Map<ActionID, ActionState>>(new Map())
-
     // ========================
     // COMPUTED
     // ========================
 
+    // Timer with the seconds left, recomputed on every clock tick
+    const timer = computed(() => {
+        if (!timerState.value) return null
+        return { ...timerState.value, remaining: clock.secondsUntilLocal(timerState.value.endsAt) }
+    })
+
     const isHost = computed(() => {
         if (!game.value || !currentUserId.value) return false
         return game.value.host === currentUserId.value
@@ -124,7 +175,7 @@ export const useGameStore = defineStore('game', () => {
     const playerCount = computed(() => players.value.length)
     const totalRoles = computed(() => {
         if (!game.value?.settings?.roles) return 0
-        return Object.values(game.value.settings.roles).reduce((sum, count) => sum + count, 0)
+        return Object.values(game.value.settings.roles).reduce((sum, count) => sum + (count ?? 0), 0)
     })
     const rolesMatchPlayers = computed(() => totalRoles.value === playerCount.value)
 
@@ -135,6 +186,18 @@ export const useGameStore = defineStore('game', () => {
 
     const isAlive = computed(() => currentPlayer.value?.alive ?? true)
 
+    // My partner when Cupid linked me to another player
+    const myPartner = computed((): PlayerID | null => {
+        return currentUserId.value ? partnerOf(currentUserId.value) : null
+    })
+
+    const isLover = computed(() => myPartner.value !== null)
+
+    // Sheriff elected on day 1 (null until then, or when the last one named nobody)
+    const sheriffId = computed(() => game.value?.sheriff ?? null)
+
+    const isSheriff = computed(() => !!currentUserId.value && sheriffId.value === currentUserId.value)
+
     // Check if it's my turn to act during night
     const isMyTurn = computed(() => {
         if (!nightTurn.value || !myRole.value) return false
@@ -144,62 +207,21 @@ export const useGameStore = defineStore('game', () => {
     // Eligible targets for current action
     const eligibleTargets = computed((): PlayersDetailsData[] => {
         if (!nightTurn.value) return []
-
-        switch (nightTurn.value.roleType) {
-            case 'seer':
-                // Seer can look at any living player except themselves
-                return livingPlayers.value.filter(p => p.id !== currentUserId.value)
-
-            case 'werewolf':
-                // Werewolves can attack any living non-werewolf
-                return livingPlayers.value.filter(p => p.role !== 'werewolf')
-
-            case 'witch':
-                // For heal: only the werewolf victim (if canHeal)
-                // For poison: any living player (if canPoison)
-                // This is handled in the UI component
-                return livingPlayers.value
-
-            default:
-                return []
-        }
+        // Finer rules (e.g. the witch's heal) are handled in the UI component
+        return nightTargetsOf(nightTurn.value.roleType, livingPlayers.value, currentUserId.value)
     })
 
-    // Get vote count for each player
+    // Get vote count for each player (the sheriff's vote counts double)
     const voteCounts = computed((): Record<PlayerID, number> => {
         const counts: Record<PlayerID, number> = {}
-        for (const target of Object.values(voteState.value.votes)) {
+        for (const [voter, target] of Object.entries(voteState.value.votes)) {
             if (target) {
-                counts[target] = (counts[target] || 0) + 1
+                counts[target] = (counts[target] || 0) + voteWeight(voter, sheriffId.value)
             }
         }
         return counts
     })
 
-    // ========================
-    // NEW: Action System Computed
-    // ========================
-
-    // Check if any action is currently active
-    const hasActiveAction = computed(() => {
-        return Array.from(pendingActions.value.values()).some(
-            action => action.status === 'pending' && action.remainingSeconds > 0
-        )
-    })
-
-    // Get all active actions
-    const activeActions = computed(() => {
-        return Array.from(pendingActions.value.values()).filter(
-            action => action.status === 'pending' && action.remainingSeconds > 0
-        )
-    })
-
-    // Get the current action (first pending action, if any)
-    const currentAction = computed((): ActionState | null => {
-        const active = activeActions.value
-        return active[0] ?? null
-    })
-
     // ========================
     // ACTIONS - Event Handlers
     // ========================
@@ -210,41 +232,38 @@ export const useGameStore = defineStore('game', () => {
 
     function handleGameData(data: GameDataEventData) {
         game.value = data
+        restoreKnownRoles(data.id)
         // Clear win data if game is restarting
         if (data.status === 'waiting') {
             winData.value = null
             myRole.value = null
+            chronicle.value = []
+            knownRoles.value = {}
+            lovers.value = null
             resetVote()
         }
+        // Deaths missed while disconnected
+        for (const player of data.players) {
+            if (!player.alive && player.role) learnRole(player.id, player.role, 'death')
+        }
     }
 
     function handleTimerEvent(data: TimerEventData) {
         if (data.status === 'expired' || data.status === 'skipped') {
-            stopTimerTick()
-            timer.value = null
+            timerState.value = null
         } else {
             // Sync with server value
-            timer.value = {
+            timerState.value = {
                 phase: data.phase,
                 roleType: data.roleType,
                 duration: data.duration,
-                remaining: data.remaining,
+                endsAt: Date.now() + data.remaining * 1000,
                 active: true,
             }
-            // Start/restart client-side countdown
-            startTimerTick()
         }
     }
 
     function handleTurnEvent(data: TurnEventData) {
-        console.log('[gameStore] handleTurnEvent received:', {
-            roleType: data.roleType,
-            targetPlayerId: data.targetPlayerId,
-            canHeal: data.canHeal,
-            canPoison: data.canPoison,
-            fullData: data
-        })
-        
         nightTurn.value = data
         // Clear any previous seer reveal
         if (data.roleType === 'seer') {
@@ -275,42 +294,88 @@ export const useGameStore = defineStore('game', () => {
             case 'end':
                 voteState.value.active = false
                 voteState.value.result = data.target ?? null
+                record({
+                    kind: 'vote',
+                    timestamp: new Date().toISOString(),
+                    eliminated: data.target ?? null,
+                    votes: { ...voteState.value.votes },
+                })
                 break
         }
     }
 
-    function handleDayEvent(_data: DayEventData) {
+    function handleDayEvent(data: DayEventData) {
         // DayEvent now only signals day start (day number)
         // Deaths are received via individual DeathEvent before this
         // Note: don't clear recentDeaths here - GameView needs them for announcement
         nightTurn.value = null
+        openPeriod('day', data.day)
     }
 
     function handleNightEvent() {
         // Reset for new night
         recentDeaths.value = []
+        attackBlocked.value = false
         resetVote()
+        // The day number only moves at dawn: this night leads to the next day
+        openPeriod('night', currentDay.value + 1)
     }
 
     function handleDeathEvent(data: DeathEventData) {
+        learnRole(data.victim, data.role, 'death')
+
         // Add death with role for announcement
         // Check if victim already in list to avoid duplicates
         if (!recentDeaths.value.some(d => d.victim === data.victim)) {
             recentDeaths.value.push({
                 victim: data.victim,
-                role: data.role
+                role: data.role,
+                cause: data.cause,
             })
         }
+
+        const recorded = chronicle.value.some(period =>
+            period.entries.some(entry => entry.kind === 'death' && entry.playerId === data.victim)
+        )
+        if (!recorded) {
+            record({
+                kind: 'death',
+                timestamp: new Date().toISOString(),
+                playerId: data.victim,
+                role: data.role,
+                cause: data.cause ?? eliminationCause(data.victim),
+            })
+        }
+    }
+
+    function handleAttackBlocked() {
+        attackBlocked.value = true
     }
 
     function handleWinEvent(data: WinEventData) {
         winData.value = data
+        record({
+            kind: 'win',
+            timestamp: new Date().toISOString(),
+            winningClan: data.winningClan,
+            winners: data.winners,
+        })
+    }
+
+    function handleSheriffEvent(data: SheriffEventData) {
+        if (game.value) {
+            game.value = { ...game.value, sheriff: data.sheriffId }
+        }
     }
 
     function handleHostChange(data: HostChangeEventData) {
         if (game.value) {
             game.value = { ...game.value, host: data.host }
         }
+        // Lobby host changes are not part of the game's story
+        if (isStarted.value || isEnded.value) {
+            record({ kind: 'host_change', timestamp: new Date().toISOString(), hostId: data.host })
+        }
     }
 
     function handleRoleReveal(data: RoleRevealEventData) {
@@ -320,64 +385,105 @@ export const useGameStore = defineStore('game', () => {
 
     function handleSeerReveal(data: SeerRevealEventData) {
         seerReveal.value = data
+        learnRole(data.targetId, data.roleType, 'seer')
         // Clear the turn after action completed
         nightTurn.value = null
     }
 
+    function handleLoversReveal(data: LoversRevealEventData) {
+        lovers.value = data.lovers
+    }
+
+    /**
+     * Partner of a lover, or null when the player is not a known lover
+     */
+    function partnerOf(playerId: PlayerID): PlayerID | null {
+        if (!lovers.value) return null
+        const [first, second] = lovers.value
+        if (playerId === first) return second
+        if (playerId === second) return first
+        return null
+    }
+
     // ========================
-    // NEW: Action System Event Handlers
+    // ACTIONS - Chronicle
     // ========================
 
-    function handleActionCreated(data: ActionCreatedEventData) {
-        const { actionId, type, payload, expiresAt, timeout } = data
-
-        console.log(`[gameStore] Action created: ${actionId} (type: ${type}, timeout: ${timeout}s)`)
+    function openPeriod(kind: ChroniclePeriod['kind'], day: number) {
+        const last = chronicle.value[chronicle.value.length - 1]
+        // A phase event seen twice does not open a second period
+        if (last?.kind === kind && last.day === day) return
+        chronicle.value.push({ kind, day, entries: [] })
+    }
 
-        // Create action state
-        const actionState: ActionState = {
-            actionId,
-            type,
-            payload,
-            expiresAt: new Date(expiresAt),
-            timeoutSeconds: timeout,
-            remainingSeconds: timeout,
-            status: 'pending',
+    /**
+     * Period being written
+     * Opened from the game phase when the game was joined midway
+     */
+    function currentPeriod(): ChroniclePeriod {
+        if (chronicle.value.length === 0) {
+            if (isNight.value) {
+                openPeriod('night', currentDay.value + 1)
+            } else {
+                openPeriod('day', currentDay.value)
+            }
         }
-
-        // Add to map
-        pendingActions.value.set(actionId, actionState)
+        return chronicle.value[chronicle.value.length - 1]!
     }
 
-    function handleActionExpired(data: ActionExpiredEventData) {
-        const { actionId, type } = data
-
-        console.log(`[gameStore] Action expired: ${actionId} (type: ${type})`)
+    function record(entry: ChronicleEntry) {
+        currentPeriod().entries.push(entry)
+    }
 
-        const action = pendingActions.value.get(actionId)
-        if (action) {
-            action.status = 'expired'
-            action.remainingSeconds = 0
-        }
+    function eliminationCause(victim: PlayerID): EliminationCause {
+        // Deaths of the night are announced before the day starts
+        if (currentPeriod().kind === 'night') return 'night'
+        return voteState.value.result === victim ? 'vote' : 'other'
     }
 
-    function markActionCompleted(actionId: ActionID, response?: any) {
-        console.log(`[gameStore] Action completed: ${actionId}`)
+    // ========================
+    // ACTIONS - Role knowledge
+    // ========================
 
-        const action = pendingActions.value.get(actionId)
-        if (action) {
-            action.status = 'completed'
-            action.response = response
-        }
+    function learnRole(playerId: PlayerID, role: RoleType, source: RoleKnowledgeSource) {
+        const known = knownRoles.value[playerId]
+        // A death makes the role public: it replaces a vision, never the other way round
+        if (known?.source === 'death' || (known && source === 'seer')) return
+        knownRoles.value = { ...knownRoles.value, [playerId]: { role, source, day: currentDay.value } }
     }
 
-    function clearAction(actionId: ActionID) {
-        console.log(`[gameStore] Clearing action: ${actionId}`)
-        pendingActions.value.delete(actionId)
+    function restoreKnownRoles(gameId: GameID) {
+        const key = `shamus:known-roles:${gameId}:${currentUserId.value ?? ''}`
+        if (key === knownRolesKey) return
+        knownRolesKey = key
+        knownRoles.value = loadStored(sessionStorage, key, KnownRolesSchema) ?? {}
     }
 
-    function clearAllActions() {
-        console.log('[gameStore] Clearing all actions')
-        pendingActions.value.clear()
+    watch(knownRoles, (value) => {
+        if (knownRolesKey) saveStored(sessionStorage, knownRolesKey, value)
+    })
+
+    // ========================
+    // ACTIONS - Resync
+    // ========================
+
+    /**
+     * Replace the local state with the server's authoritative snapshot
+     * (sent after a reconnect when the missed events cannot be replayed)
+     */
+    function handleSnapshot(data: SnapshotEventData) {
+        handleGameData(data.game)
+        myRole.value = data.myRole
+        lovers.value = data.lovers ?? null
+
+        if (data.timer) {
+            handleTimerEvent(data.timer)
+        } else {
+            timerState.value = null
+        }
+
+        // Keep local state (e.g. an answer being sent) for actions still pending
+        actionStore.syncPending(data.pendingActions)
     }
 
     // ========================
@@ -386,17 +492,26 @@ export const useGameStore = defineStore('game', () => {
 
     function handleErrorEvent(data: ErrorEventData) {
         lastError.value = data
-        // Clear loading state for the action that failed
-        if (data.action) {
-            actionLoading.value[data.action] = false
-        }
+        settleResponse(data.requestId, data.action)
     }
 
     function handleAckEvent(data: AckEventData) {
         lastAck.value = data
-        // Clear loading state for the acknowledged action
-        if (data.action) {
-            actionLoading.value[data.action] = false
+        settleResponse(data.requestId, data.action)
+    }
+
+    // Clear loading state for the command the server answered
+    // An unknown request ID is ignored: with the tab relay, the reply may be for a follower tab's
+    // command. Only a reply without a request ID falls back to the oldest request for its action
+    function settleResponse(requestId: string | undefined, action: string | undefined) {
+        if (requestId) {
+            settleRequest(requestId)
+            return
+        }
+        if (action) {
+            actionLoading.value[action] = false
+            const oldest = Object.keys(pendingRequests.value).find(id => pendingRequests.value[id] === action)
+            if (oldest) settleRequest(oldest)
         }
     }
 
@@ -404,8 +519,19 @@ export const useGameStore = defineStore('game', () => {
         actionLoading.value[action] = loading
     }
 
+    function trackRequest(requestId: string, action: string) {
+        pendingRequests.value = { ...pendingRequests.value, [requestId]: action }
+    }
+
+    function settleRequest(requestId: string) {
+        if (!(requestId in pendingRequests.value)) return
+        const { [requestId]: _settled, ...rest } = pendingRequests.value
+        pendingRequests.value = rest
+    }
+
     function isActionLoading(action: string): boolean {
-        return actionLoading.value[action] ?? false
+        return (actionLoading.value[action] ?? false)
+            || Object.values(pendingRequests.value).includes(action)
     }
 
     function clearLastError() {
@@ -417,32 +543,42 @@ export const useGameStore = defineStore('game', () => {
     }
 
     // ========================
-    // ACTIONS - Timer Tick (Client-side countdown)
+    // EVENT SUBSCRIPTIONS
     // ========================
 
-    function startTimerTick() {
-        // Clear any existing interval first
-        stopTimerTick()
-
-        // Start countdown interval (decrement every second)
-        timerIntervalId = setInterval(() => {
-            if (timer.value && timer.value.remaining > 0) {
-                timer.value = {
-                    ...timer.value,
-                    remaining: timer.value.remaining - 1
-                }
-            } else {
-                // Stop when timer reaches 0
-                stopTimerTick()
-            }
-        }, 1000)
-    }
-
-    function stopTimerTick() {
-        if (timerIntervalId) {
-            clearInterval(timerIntervalId)
-            timerIntervalId = null
-        }
+    /**
+     * Subscribe the state handlers to the event registry
+     * Registered before any UI handler, so those see the updated state.
+     * In a replay, recorded timestamps say nothing about the server clock: no sampling.
+     * Returns the unsubscribe function.
+     */
+    function registerEventHandlers(events: EventRegistry, options: { replay?: boolean } = {}): () => void {
+        const subscriptions = [
+            events.on(EventChannelGameEvent, EventTypeGameData, handleGameData),
+            events.on(EventChannelGameEvent, EventTypeDay, handleDayEvent),
+            events.on(EventChannelGameEvent, EventTypeNight, () => handleNightEvent()),
+            events.on(EventChannelGameEvent, EventTypeVote, handleVoteEvent),
+            events.on(EventChannelGameEvent, EventTypeDeath, handleDeathEvent),
+            events.on(EventChannelGameEvent, EventTypeAttackBlocked, handleAttackBlocked),
+            events.on(EventChannelGameEvent, EventTypeWin, handleWinEvent),
+            events.on(EventChannelGameEvent, EventTypeRoleReveal, handleRoleReveal),
+            events.on(EventChannelGameEvent, EventTypeSeerReveal, handleSeerReveal),
+            events.on(EventChannelGameEvent, EventTypeLoversReveal, handleLoversReveal),
+            events.on(EventChannelGameEvent, EventTypeSheriff, handleSheriffEvent),
+            events.on(EventChannelGameEvent, EventTypeTurn, handleTurnEvent),
+            events.on(EventChannelGameEvent, EventTypeError, handleErrorEvent),
+            events.on(EventChannelGameEvent, EventTypeAck, handleAckEvent),
+            events.on(EventChannelTimer, EventTypeTimer, handleTimerEvent),
+            events.on(EventChannelAction, EventTypeActionCreated, (data) => {
+                // Created `timeout` seconds before its deadline, on the server's clock
+                if (!options.replay) clock.observe(Date.parse(data.expiresAt) - data.timeout * 1000)
+                actionStore.handleActionCreated(data)
+            }),
+            events.on(EventChannelAction, EventTypeActionExpired, actionStore.handleActionExpired),
+            events.on(EventChannelConnexion, EventTypeGameHostChange, handleHostChange),
+            events.on(EventChannelConnexion, EventTypeSnapshot, handleSnapshot),
+        ]
+        return () => subscriptions.forEach(unsubscribe => unsubscribe())
     }
 
     // ========================
@@ -465,25 +601,35 @@ export const useGameStore = defineStore('game', () => {
         seerReveal.value = null
     }
 
+    // The night's outcome has been announced
     function clearRecentDeaths() {
         recentDeaths.value = []
+        attackBlocked.value = false
     }
 
     function resetStore() {
-        stopTimerTick()
         currentUserId.value = null
         game.value = null
-        timer.value = null
+        timerState.value = null
         nightTurn.value = null
         seerReveal.value = null
         winData.value = null
         recentDeaths.value = []
+        attackBlocked.value = false
+        chronicle.value = []
+        // The saved knowledge stays: coming back to the game restores it
+        knownRoles.value = {}
+        knownRolesKey = null
         myRole.value = null
+        lovers.value = null
         actionLoading.value = {}
+        pendingRequests.value = {}
         lastError.value = null
         lastAck.value = null
         resetVote()
-        clearAllActions() // NEW: Clear action system state
+        actionStore.reset()
+        // The next game may be served by another server
+        clock.reset()
     }
 
     // ========================
@@ -500,11 +646,15 @@ export const useGameStore = defineStore('game', () => {
         seerReveal,
         winData,
         recentDeaths,
+        attackBlocked,
+        chronicle,
+        knownRoles,
         myRole,
+        lovers,
         actionLoading,
+        pendingRequests,
         lastError,
         lastAck,
-        pendingActions, // NEW
 
         // Computed
         isHost,
@@ -524,12 +674,13 @@ export const useGameStore = defineStore('game', () => {
         rolesMatchPlayers,
         currentPlayer,
         isAlive,
+        myPartner,
+        isLover,
+        sheriffId,
+        isSheriff,
         isMyTurn,
         eligibleTargets,
         voteCounts,
-        hasActiveAction, // NEW
-        activeActions, // NEW
-        currentAction, // NEW
 
         // Actions - Event handlers
         setCurrentUserId,
@@ -544,10 +695,13 @@ export const useGameStore = defineStore('game', () => {
         handleHostChange,
         handleRoleReveal,
         handleSeerReveal,
+        handleLoversReveal,
+        handleSheriffEvent,
+        handleAttackBlocked,
         handleErrorEvent,
         handleAckEvent,
-        handleActionCreated, // NEW
-        handleActionExpired, // NEW
+        handleSnapshot,
+        registerEventHandlers,
 
         // Actions - UI helpers
         resetVote,
@@ -555,13 +709,12 @@ export const useGameStore = defineStore('game', () => {
         clearSeerReveal,
         clearRecentDeaths,
         resetStore,
+        partnerOf,
         setActionLoading,
+        trackRequest,
+        settleRequest,
         isActionLoading,
         clearLastError,
         clearLastAck,
-        stopTimerTick,
-        markActionCompleted, // NEW
-        clearAction, // NEW
-        clearAllActions, // NEW
     }
 })
@@ -0,0 +1,116 @@
+import { ref, watch } from 'vue'
+import { defineStore } from 'pinia'
+import type { GameID } from '@/types/game'
+import type { PlayerID } from '@/types/player'
+import type { Notebook, PlayerNote, SuspicionLevel } from '@/types/notebook'
+import { NotebookSchema } from '@/schemas'
+import { loadStored, saveStored, storedKeys } from '@/utils/storage'
+
+// Notes are private: they stay in this browser and never go over the socket
+const STORAGE_PREFIX = 'shamus:notebook:'
+const storageKey = (gameId: GameID) => `${STORAGE_PREFIX}${gameId}`
+
+// Notebooks kept in this browser, the open one included: older games are forgotten
+const MAX_STORED_NOTEBOOKS = 20
+
+const EMPTY_NOTE: PlayerNote = { text: '', suspicion: 'neutral', updatedAt: new Date(0).toISOString() }
+
+// Latest note edit, '' for an empty notebook (ISO dates compare as strings)
+function lastEditOf(notebook: Notebook | null): string {
+    return Object.values(notebook ?? {}).reduce((latest, note) => note.updatedAt > latest ? note.updatedAt : latest, '')
+}
+
+/**
+ * Drop the notebooks of all but the most recently edited games, keeping the open one
+ */
+function pruneStoredNotebooks(openId: GameID) {
+    const openKey = storageKey(openId)
+    const others = storedKeys(localStorage, STORAGE_PREFIX)
+        .filter(key => key !== openKey)
+        .map(key => ({ key, lastEdit: lastEditOf(loadStored(localStorage, key, NotebookSchema)) }))
+        .sort((a, b) => b.lastEdit.localeCompare(a.lastEdit))
+    for (const { key } of others.slice(MAX_STORED_NOTEBOOKS - 1)) {
+        localStorage.removeItem(key)
+    }
+}
+
+export const useNotebookStore = defineStore('notebook', () => {
+    // ========================
+    // STATE
+    // ========================
+
+    // Game the notebook belongs to (null until a game is opened)
+    const gameId = ref<GameID | null>(null)
+
+    // Notes per player
+    const notes = ref<Notebook>({})
+
+    // ========================
+    // ACTIONS
+    // ========================
+
+    /**
+     * Load the notebook of a game
+     */
+    function open(id: GameID) {
+        if (gameId.value === id) return
+        gameId.value = id
+        notes.value = loadStored(localStorage, storageKey(id), NotebookSchema) ?? {}
+        pruneStoredNotebooks(id)
+    }
+
+    /**
+     * Forget the notebook in memory (it stays saved)
+     */
+    function close() {
+        gameId.value = null
+        notes.value = {}
+    }
+
+    function noteOf(playerId: PlayerID): PlayerNote {
+        return notes.value[playerId] ?? EMPTY_NOTE
+    }
+
+    function suspicionOf(playerId: PlayerID): SuspicionLevel {
+        return noteOf(playerId).suspicion
+    }
+
+    function update(playerId: PlayerID, changes: Partial<Pick<PlayerNote, 'text' | 'suspicion'>>) {
+        const note = { ...noteOf(playerId), ...changes, updatedAt: new Date().toISOString() }
+        const { [playerId]: _previous, ...others } = notes.value
+        // An empty, neutral note is the same as no note
+        notes.value = note.text.trim() === '' && note.suspicion === 'neutral'
+            ? others
+            : { ...others, [playerId]: note }
+    }
+
+    function setNote(playerId: PlayerID, text: string) {
+        update(playerId, { text })
+    }
+
+    function setSuspicion(playerId: PlayerID, suspicion: SuspicionLevel) {
+        update(playerId, { suspicion })
+    }
+
+    watch(notes, (value) => {
+        if (gameId.value) saveStored(localStorage, storageKey(gameId.value), value)
+    })
+
+    // ========================
+    // RETURN
+    // ========================
+
+    return {
+        // State
+        gameId,
+        notes,
+
+        // Actions
+        open,
+        close,
+        noteOf,
+        suspicionOf,
+        setNote,
+        setSuspicion,
+    }
+})
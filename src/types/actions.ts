@@ -3,28 +3,29 @@
  * Maps to backend: internal/domain/entities/action.go and actions/
  */
 
-import type { PlayerID } from './player'
+import type { z } from 'zod'
+import type * as S from '@/schemas'
 
 // ============================================================================
 // Core Action Types
 // ============================================================================
 
+// Types below are derived from the runtime schemas (src/schemas/actions.ts)
+
 /** Unique identifier for an action */
-export type ActionID = string
+export type ActionID = z.infer<typeof S.ActionIDSchema>
 
 /** Type of action a player can perform */
-export type ActionType = 
-  | 'seer_vision'
-  | 'werewolf_vote'
-  | 'witch_potion'
-  | 'village_vote'
+export type ActionType = z.infer<typeof S.ActionTypeSchema>
 
 /** Status of an action's lifecycle */
-export type ActionStatus = 
-  | 'pending'
-  | 'completed'
-  | 'expired'
-  | 'cancelled'
+export type ActionStatus = z.infer<typeof S.ActionStatusSchema>
+
+/**
+ * Client-side lifecycle of an action: the server statuses, plus an answer
+ * waiting for the server (`submitting`) and an answer it refused (`rejected`)
+ */
+export type ActionLifecycleStatus = ActionStatus | 'submitting' | 'rejected'
 
 // ============================================================================
 // Action Event Data (Server → Client)
@@ -32,24 +33,16 @@ export type ActionStatus =
 
 /**
  * Event sent when a new action is created for a player
+ * Discriminated on `type`: the payload shape follows the action type
  * Maps to: internal/domain/entities/events/action.go - ActionCreatedEventData
  */
-export interface ActionCreatedEventData {
-  actionId: string
-  type: ActionType
-  payload: ActionPayload
-  expiresAt: string // ISO 8601 timestamp
-  timeout: number // Timeout in seconds for UI display
-}
+export type ActionCreatedEventData = z.infer<typeof S.ActionCreatedEventDataSchema>
 
 /**
  * Event sent when an action times out
  * Maps to: internal/domain/entities/events/action.go - ActionExpiredEventData
  */
-export interface ActionExpiredEventData {
-  actionId: string
-  type: ActionType
-}
+export type ActionExpiredEventData = z.infer<typeof S.ActionExpiredEventDataSchema>
 
 // ============================================================================
 // Action Payloads (Server → Client)
@@ -59,44 +52,66 @@ export interface ActionExpiredEventData {
  * Payload for Seer vision action
  * Maps to: internal/domain/entities/actions/payloads.go - SeerVisionPayload
  */
-export interface SeerVisionPayload {
-  eligibleTargets: PlayerID[]
-}
+export type SeerVisionPayload = z.infer<typeof S.SeerVisionPayloadSchema>
 
 /**
  * Payload for Werewolf vote action
  * Maps to: internal/domain/entities/actions/payloads.go - WerewolfVotePayload
  */
-export interface WerewolfVotePayload {
-  eligibleTargets: PlayerID[]
-}
+export type WerewolfVotePayload = z.infer<typeof S.WerewolfVotePayloadSchema>
 
 /**
  * Payload for Witch potion action
  * Maps to: internal/domain/entities/actions/payloads.go - WitchPotionPayload
  */
-export interface WitchPotionPayload {
-  victimId?: PlayerID | null // Player killed by werewolves (null if none)
-  hasHealPotion: boolean // Can the witch still heal?
-  hasPoisonPotion: boolean // Can the witch still poison?
-}
+export type WitchPotionPayload = z.infer<typeof S.WitchPotionPayloadSchema>
 
 /**
  * Payload for Village vote action
  * Maps to: internal/domain/entities/actions/payloads.go - VillageVotePayload
  */
-export interface VillageVotePayload {
-  eligibleTargets: PlayerID[]
-}
+export type VillageVotePayload = z.infer<typeof S.VillageVotePayloadSchema>
+
+/**
+ * Payload for Cupid link action
+ * Maps to: internal/domain/entities/actions/payloads.go - CupidLinkPayload
+ */
+export type CupidLinkPayload = z.infer<typeof S.CupidLinkPayloadSchema>
+
+/**
+ * Payload for Hunter shot action
+ * Maps to: internal/domain/entities/actions/payloads.go - HunterShotPayload
+ */
+export type HunterShotPayload = z.infer<typeof S.HunterShotPayloadSchema>
+
+/**
+ * Payload for Guard protect action
+ * Maps to: internal/domain/entities/actions/payloads.go - GuardProtectPayload
+ */
+export type GuardProtectPayload = z.infer<typeof S.GuardProtectPayloadSchema>
+
+/**
+ * Payload for Sheriff election action
+ * Maps to: internal/domain/entities/actions/payloads.go - SheriffElectionPayload
+ */
+export type SheriffElectionPayload = z.infer<typeof S.SheriffElectionPayloadSchema>
+
+/**
+ * Payload for Sheriff tie-break action
+ * Maps to: internal/domain/entities/actions/payloads.go - SheriffTiebreakPayload
+ */
+export type SheriffTiebreakPayload = z.infer<typeof S.SheriffTiebreakPayloadSchema>
+
+/**
+ * Payload for Sheriff succession action
+ * Maps to: internal/domain/entities/actions/payloads.go - SheriffSuccessionPayload
+ */
+export type SheriffSuccessionPayload = z.infer<typeof S.SheriffSuccessionPayloadSchema>
 
 /**
  * Union type for all possible action payloads
  */
-export type ActionPayload =
-  | SeerVisionPayload
-  | WerewolfVotePayload
-  | WitchPotionPayload
-  | VillageVotePayload
+export type ActionPayload = z.infer<typeof S.ActionPayloadSchema>
 
 // ============================================================================
 // Action Responses (Client → Server)
@@ -106,43 +121,66 @@ export type ActionPayload =
  * Response for Seer vision action
  * Maps to: internal/domain/entities/actions/responses.go - SeerVisionResponse
  */
-export interface SeerVisionResponse {
-  targetId: PlayerID
-}
+export type SeerVisionResponse = z.infer<typeof S.SeerVisionResponseSchema>
 
 /**
  * Response for Werewolf vote action
  * Maps to: internal/domain/entities/actions/responses.go - WerewolfVoteResponse
  */
-export interface WerewolfVoteResponse {
-  targetId?: PlayerID | null // null to abstain
-}
+export type WerewolfVoteResponse = z.infer<typeof S.WerewolfVoteResponseSchema>
 
 /**
  * Response for Witch potion action
  * Maps to: internal/domain/entities/actions/responses.go - WitchPotionResponse
  */
-export interface WitchPotionResponse {
-  healTargetId?: PlayerID | null // Player to heal (must be victim)
-  poisonTargetId?: PlayerID | null // Player to poison
-}
+export type WitchPotionResponse = z.infer<typeof S.WitchPotionResponseSchema>
 
 /**
  * Response for Village vote action
  * Maps to: internal/domain/entities/actions/responses.go - VillageVoteResponse
  */
-export interface VillageVoteResponse {
-  targetId?: PlayerID | null // null to abstain
-}
+export type VillageVoteResponse = z.infer<typeof S.VillageVoteResponseSchema>
+
+/**
+ * Response for Cupid link action
+ * Maps to: internal/domain/entities/actions/responses.go - CupidLinkResponse
+ */
+export type CupidLinkResponse = z.infer<typeof S.CupidLinkResponseSchema>
+
+/**
+ * Response for Hunter shot action
+ * Maps to: internal/domain/entities/actions/responses.go - HunterShotResponse
+ */
+export type HunterShotResponse = z.infer<typeof S.HunterShotResponseSchema>
+
+/**
+ * Response for Guard protect action
+ * Maps to: internal/domain/entities/actions/responses.go - GuardProtectResponse
+ */
+export type GuardProtectResponse = z.infer<typeof S.GuardProtectResponseSchema>
+
+/**
+ * Response for Sheriff election action
+ * Maps to: internal/domain/entities/actions/responses.go - SheriffElectionResponse
+ */
+export type SheriffElectionResponse = z.infer<typeof S.SheriffElectionResponseSchema>
+
+/**
+ * Response for Sheriff tie-break action
+ * Maps to: internal/domain/entities/actions/responses.go - SheriffTiebreakResponse
+ */
+export type SheriffTiebreakResponse = z.infer<typeof S.SheriffTiebreakResponseSchema>
+
+/**
+ * Response for Sheriff succession action
+ * Maps to: internal/domain/entities/actions/responses.go - SheriffSuccessionResponse
+ */
+export type SheriffSuccessionResponse = z.infer<typeof S.SheriffSuccessionResponseSchema>
 
 /**
  * Union type for all possible action responses
  */
-export type ActionResponse =
-  | SeerVisionResponse
-  | WerewolfVoteResponse
-  | WitchPotionResponse
-  | VillageVoteResponse
+export type ActionResponse = z.infer<typeof S.ActionResponseSchema>
 
 // ============================================================================
 // Action Response Event Data (Client → Server)
@@ -152,10 +190,7 @@ export type ActionResponse =
  * Event sent by client to respond to an action
  * Maps to: internal/domain/entities/events/action.go - ActionResponseEventData
  */
-export interface ActionResponseEventData {
-  actionId: string
-  response: ActionResponse
-}
+export type ActionResponseEventData = z.infer<typeof S.ActionResponseEventDataSchema>
 
 // ============================================================================
 // Helper Types
@@ -169,10 +204,16 @@ export type TypedActionCreatedEvent<T extends ActionType> =
   T extends 'werewolf_vote' ? ActionCreatedEventData & { payload: WerewolfVotePayload } :
   T extends 'witch_potion' ? ActionCreatedEventData & { payload: WitchPotionPayload } :
   T extends 'village_vote' ? ActionCreatedEventData & { payload: VillageVotePayload } :
+  T extends 'cupid_link' ? ActionCreatedEventData & { payload: CupidLinkPayload } :
+  T extends 'hunter_shot' ? ActionCreatedEventData & { payload: HunterShotPayload } :
+  T extends 'guard_protect' ? ActionCreatedEventData & { payload: GuardProtectPayload } :
+  T extends 'sheriff_election' ? ActionCreatedEventData & { payload: SheriffElectionPayload } :
+  T extends 'sheriff_tiebreak' ? ActionCreatedEventData & { payload: SheriffTiebreakPayload } :
+  T extends 'sheriff_succession' ? ActionCreatedEventData & { payload: SheriffSuccessionPayload } :
   never
 
 /**
- * Client-side action state (for tracking in useActions composable)
+ * Client-side action state (tracked by the action store)
  */
 export interface ActionState {
   actionId: string
@@ -180,7 +221,14 @@ export interface ActionState {
   payload: ActionPayload
   expiresAt: Date
   timeoutSeconds: number
+  /** Derived from expiresAt on the server clock (see useServerClock) */
   remainingSeconds: number
-  status: ActionStatus
+  status: ActionLifecycleStatus
+  /** Last answer sent */
   response?: ActionResponse
+  /** Why the server refused the last answer */
+  error?: string
+  createdAt: Date
+  /** When the action reached a final status (completed, expired or cancelled) */
+  settledAt?: Date
 }
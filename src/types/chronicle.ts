@@ -0,0 +1,24 @@
+import type { PlayerID } from './player'
+import type { RoleType } from './roles'
+import type { Clan } from './events'
+
+/**
+ * Game chronicle: what happened, night by night and day by day
+ * Built client-side from the game events (not sent by the server)
+ */
+
+/** How a player left the game */
+export type EliminationCause = 'night' | 'vote' | 'grief' | 'hunter_shot' | 'other'
+
+export type ChronicleEntry =
+  | { kind: 'death'; timestamp: string; playerId: PlayerID; role: RoleType; cause: EliminationCause }
+  | { kind: 'vote'; timestamp: string; eliminated: PlayerID | null; votes: Record<PlayerID, PlayerID | null> }
+  | { kind: 'host_change'; timestamp: string; hostId: PlayerID }
+  | { kind: 'win'; timestamp: string; winningClan: Clan; winners: PlayerID[] }
+
+export interface ChroniclePeriod {
+  kind: 'night' | 'day'
+  /** Night N precedes day N */
+  day: number
+  entries: ChronicleEntry[]
+}
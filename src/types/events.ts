@@ -1,6 +1,5 @@
-import type { PlayerID } from "@/types/player"
-import type { GameID, GamePhase, GameStatus } from "@/types/game"
-import type { RoleType } from "@/types/roles"
+import type { z } from "zod"
+import type * as S from "@/schemas"
 import type { 
     ActionCreatedEventData, 
     ActionExpiredEventData, 
@@ -17,15 +16,23 @@ export type EventType =
     | 'reconnection'
     | 'inactive'
     | 'host_change'
+    | 'ping'
+    | 'pong'
+    | 'auth'
+    | 'resync'
+    | 'snapshot'
     | 'timer' 
     | 'turn' 
     | 'vote' 
     | 'day' 
     | 'night' 
     | 'death' 
+    | 'attack_blocked'
+    | 'sheriff'
     | 'win' 
     | 'role_reveal' 
     | 'seer_reveal'
+    | 'lovers_reveal'
     | 'error' 
     | 'ack'
     | 'start_game'
@@ -40,263 +47,175 @@ export type EventType =
 
 export type EventChannel = 'game_event' | 'conn_event' | 'settings_event' | 'timer_event' | 'action_event';
 
-export type ConnectionState = 'connected' | 'disconnected' | 'reconnecting' | 'inactive';
+export type ConnectionState = z.infer<typeof S.ConnectionStateSchema>;
 
 // Clan types for win conditions
-export type Clan = 'werewolf' | 'villager' | 'lovers' | 'none'
+export type Clan = z.infer<typeof S.ClanSchema>;
 
 // Event channels
-export const EventChannelGameEvent: EventChannel = "game_event";
-export const EventChannelConnexion: EventChannel = "conn_event";
-export const EventChannelSettings: EventChannel = "settings_event";
-export const EventChannelTimer: EventChannel = "timer_event";
-export const EventChannelAction: EventChannel = "action_event";
+export const EventChannelGameEvent = "game_event" satisfies EventChannel;
+export const EventChannelConnexion = "conn_event" satisfies EventChannel;
+export const EventChannelSettings = "settings_event" satisfies EventChannel;
+export const EventChannelTimer = "timer_event" satisfies EventChannel;
+export const EventChannelAction = "action_event" satisfies EventChannel;
 
 // Event types - Server → Client (existing)
-export const EventTypeGameSettings: EventType = "settings";
-export const EventTypeGameData: EventType = "game_data";
-export const EventTypeChatMessage: EventType = "chat_message";
-export const EventTypeConnection: EventType = "connection";
-export const EventTypeDisconnection: EventType = "disconnection";
-export const EventTypeReconnection: EventType = "reconnection";
-export const EventTypeInactive: EventType = "inactive";
-export const EventTypeGameHostChange: EventType = "host_change";
+export const EventTypeGameSettings = "settings" satisfies EventType;
+export const EventTypeGameData = "game_data" satisfies EventType;
+export const EventTypeChatMessage = "chat_message" satisfies EventType;
+export const EventTypeConnection = "connection" satisfies EventType;
+export const EventTypeDisconnection = "disconnection" satisfies EventType;
+export const EventTypeReconnection = "reconnection" satisfies EventType;
+export const EventTypeInactive = "inactive" satisfies EventType;
+export const EventTypeGameHostChange = "host_change" satisfies EventType;
+
+// Event types - Heartbeat (conn_event, client ping → server pong)
+export const EventTypePing = "ping" satisfies EventType;
+export const EventTypePong = "pong" satisfies EventType;
+
+// Event types - Authentication (conn_event, first client message after open)
+export const EventTypeAuth = "auth" satisfies EventType;
+
+// Event types - Resync (conn_event): client asks for missed events, server replays them or sends a snapshot
+export const EventTypeResync = "resync" satisfies EventType;
+export const EventTypeSnapshot = "snapshot" satisfies EventType;
 
 // Event types - Server → Client (new game flow events)
-export const EventTypeTimer: EventType = "timer";
-export const EventTypeTurn: EventType = "turn";
-export const EventTypeVote: EventType = "vote";
-export const EventTypeDay: EventType = "day";
-export const EventTypeNight: EventType = "night";
-export const EventTypeDeath: EventType = "death";
-export const EventTypeWin: EventType = "win";
-export const EventTypeRoleReveal: EventType = "role_reveal";
-export const EventTypeSeerReveal: EventType = "seer_reveal";
+export const EventTypeTimer = "timer" satisfies EventType;
+export const EventTypeTurn = "turn" satisfies EventType;
+export const EventTypeVote = "vote" satisfies EventType;
+export const EventTypeDay = "day" satisfies EventType;
+export const EventTypeNight = "night" satisfies EventType;
+export const EventTypeDeath = "death" satisfies EventType;
+export const EventTypeAttackBlocked = "attack_blocked" satisfies EventType;
+export const EventTypeSheriff = "sheriff" satisfies EventType;
+export const EventTypeWin = "win" satisfies EventType;
+export const EventTypeRoleReveal = "role_reveal" satisfies EventType;
+export const EventTypeSeerReveal = "seer_reveal" satisfies EventType;
+export const EventTypeLoversReveal = "lovers_reveal" satisfies EventType;
 
 // Event types - Server → Client (error and ack)
-export const EventTypeError: EventType = "error";
-export const EventTypeAck: EventType = "ack";
+export const EventTypeError = "error" satisfies EventType;
+export const EventTypeAck = "ack" satisfies EventType;
 
 // Event types - Client → Server (actions - DEPRECATED, use action system)
-export const EventTypeStartGame: EventType = "start_game";
-export const EventTypeVillageVote: EventType = "village_vote";
-export const EventTypeSeerAction: EventType = "seer_action";
-export const EventTypeWerewolfVote: EventType = "werewolf_vote";
-export const EventTypeWitchAction: EventType = "witch_action";
+export const EventTypeStartGame = "start_game" satisfies EventType;
+export const EventTypeVillageVote = "village_vote" satisfies EventType;
+export const EventTypeSeerAction = "seer_action" satisfies EventType;
+export const EventTypeWerewolfVote = "werewolf_vote" satisfies EventType;
+export const EventTypeWitchAction = "witch_action" satisfies EventType;
 
 // Event types - Action system (NEW)
-export const EventTypeActionCreated: EventType = "action_created";
-export const EventTypeActionResponse: EventType = "action_response";
-export const EventTypeActionExpired: EventType = "action_expired";
+export const EventTypeActionCreated = "action_created" satisfies EventType;
+export const EventTypeActionResponse = "action_response" satisfies EventType;
+export const EventTypeActionExpired = "action_expired" satisfies EventType;
 
 // Generic Event interface
 export interface Event<T> {
     channel: EventChannel;
     type: EventType;
     data: T;
+    requestId?: string;  // Client-generated ID on outbound commands, echoed in ack/error
+    seq?: number;        // Per-game sequence number on server → client game events
 }
 
 // ========================
 // EXISTING DATA INTERFACES
 // ========================
-
-// Interface GameSettings
-export interface GameSettings {
-    roles: Record<RoleType, number>;
-}
-
-// Interface GameSettingsEventData
-export interface GameSettingsEventData {
-    roles: Record<RoleType, number>;
-}
-
-// Interface PlayersDetailsData
-export interface PlayersDetailsData {
-    id: PlayerID;
-    username: string
-    alive: boolean;
-    role?: RoleType | null;
-    target?: PlayerID | null;
-    connection_state: ConnectionState;
-}
-
-// Interface GameDataEventData
-export interface GameDataEventData {
-    id: GameID;
-    status: GameStatus;
-    phase: GamePhase;
-    day: number;
-    players: PlayersDetailsData[];
-    host: PlayerID;
-    settings: GameSettings;
-}
-
-// Interface ChatMessageEvent
-export interface ChatMessageEvent {
-    playerID: PlayerID;
-    nickname?: string;
-    message: string;
-    channel: string;
-}
-
-// Interface ConnectionEvent
-export interface ConnectionEvent {
-    player: PlayerID;
-}
-
-// Interface DisconnectionEvent
-export interface DisconnectionEvent {
-    player: PlayerID;
-}
-
-// Interface ReconnectionEventData
-export interface ReconnectionEventData {
-    player: PlayerID;
-}
-
-// Interface InactiveEventData
-export interface InactiveEventData {
-    player: PlayerID;
-}
-
-// Interface HostChangeEventData
-export interface HostChangeEventData {
-    host: PlayerID;
-}
+// Payload types are derived from the runtime schemas (src/schemas) so they cannot drift apart
+
+export type GameSettings = z.infer<typeof S.GameSettingsSchema>;
+export type GameSettingsEventData = z.infer<typeof S.GameSettingsEventDataSchema>;
+/** Count per role; a role missing from the map is simply not in play */
+export type RoleCounts = GameSettings['roles'];
+export type PlayersDetailsData = z.infer<typeof S.PlayersDetailsDataSchema>;
+export type GameDataEventData = z.infer<typeof S.GameDataEventDataSchema>;
+export type ChatMessageEvent = z.infer<typeof S.ChatMessageEventSchema>;
+export type ConnectionEvent = z.infer<typeof S.ConnectionEventSchema>;
+export type DisconnectionEvent = z.infer<typeof S.DisconnectionEventSchema>;
+export type ReconnectionEventData = z.infer<typeof S.ReconnectionEventDataSchema>;
+export type InactiveEventData = z.infer<typeof S.InactiveEventDataSchema>;
+export type HostChangeEventData = z.infer<typeof S.HostChangeEventDataSchema>;
+
+// Heartbeat ping (client → server) and pong (server → client)
+export type PingEventData = z.infer<typeof S.PingEventDataSchema>;
+export type PongEventData = z.infer<typeof S.PongEventDataSchema>;
+
+// Authentication (client → server, first message on every connection)
+export type AuthEventData = z.infer<typeof S.AuthEventDataSchema>;
+
+// Resync request (client → server) and authoritative snapshot (server → client)
+export type ResyncEventData = z.infer<typeof S.ResyncEventDataSchema>;
+export type SnapshotEventData = z.infer<typeof S.SnapshotEventDataSchema>;
 
 // ========================
 // NEW GAME FLOW INTERFACES
 // ========================
 
 // Timer event data (server → client)
-export type TimerStatus = 'started' | 'tick' | 'expired' | 'skipped';
-
-export interface TimerEventData {
-    phase: GamePhase;
-    roleType?: RoleType;  // For night phase, which role's turn
-    duration: number;     // Total duration in seconds
-    remaining: number;    // Remaining time in seconds
-    status: TimerStatus;
-}
+export type TimerStatus = z.infer<typeof S.TimerStatusSchema>;
+export type TimerEventData = z.infer<typeof S.TimerEventDataSchema>;
 
 // Turn event data (server → client) - Night phase turns
-export interface TurnEventData {
-    roleType: RoleType;              // Which role should act
-    targetPlayerId?: PlayerID;       // For witch: who the werewolves attacked
-    canHeal?: boolean;               // For witch: can she heal?
-    canPoison?: boolean;             // For witch: can she poison?
-}
+export type TurnEventData = z.infer<typeof S.TurnEventDataSchema>;
 
 // Vote event data (server → client)
-export type VoteEventType = 'start' | 'player' | 'end';
-
-export interface VoteEventData {
-    type: VoteEventType;
-    player?: PlayerID;   // Who voted (for 'player' type)
-    target?: PlayerID;   // Who was voted for / eliminated
-}
+export type VoteEventType = z.infer<typeof S.VoteEventTypeSchema>;
+export type VoteEventData = z.infer<typeof S.VoteEventDataSchema>;
 
 // Day event data (server → client)
 // Note: Deaths are now sent as individual DeathEvent before this event
-export interface DayEventData {
-    day: number;  // Current day number
-}
+export type DayEventData = z.infer<typeof S.DayEventDataSchema>;
 
-// Night event data (server → client)
-export interface NightEventData {
-    // Empty - just a phase transition signal
-}
+// Night event data (server → client) - just a phase transition signal
+export type NightEventData = z.infer<typeof S.NightEventDataSchema>;
 
-// Death event data (server → client)
-// Role is revealed when a player dies
-export interface DeathEventData {
-    victim: PlayerID;
-    role: RoleType;
-}
+// Death event data (server → client) - role is revealed when a player dies
+export type DeathCause = z.infer<typeof S.DeathCauseSchema>;
+export type DeathEventData = z.infer<typeof S.DeathEventDataSchema>;
+
+// Attack blocked event data (server → client) - the werewolves' victim was protected
+export type AttackBlockedEventData = z.infer<typeof S.AttackBlockedEventDataSchema>;
+
+// Sheriff event data (server → client) - elected on day 1, or named by the dying sheriff
+export type SheriffChange = z.infer<typeof S.SheriffChangeSchema>;
+export type SheriffEventData = z.infer<typeof S.SheriffEventDataSchema>;
 
 // Win event data (server → client)
-export interface WinEventData {
-    winningClan: Clan;
-    winners: PlayerID[];
-}
+export type WinEventData = z.infer<typeof S.WinEventDataSchema>;
 
-// Role reveal event data (server → client) - For seer
-export interface RoleRevealEventData {
-    role: RoleType;
-}
+// Role reveal event data (server → client)
+export type RoleRevealEventData = z.infer<typeof S.RoleRevealEventDataSchema>;
 
 // Seer reveal event data (server → client)
-export interface SeerRevealEventData {
-    targetId: PlayerID;
-    roleType: RoleType;
-}
+export type SeerRevealEventData = z.infer<typeof S.SeerRevealEventDataSchema>;
+
+// Lovers reveal event data (server → client) - the pair linked by Cupid
+export type Lovers = z.infer<typeof S.LoversSchema>;
+export type LoversRevealEventData = z.infer<typeof S.LoversRevealEventDataSchema>;
 
 // ========================
 // ERROR AND ACK INTERFACES
 // ========================
 
-// Error codes from backend
-export type ErrorCode =
-    | 'WRONG_PHASE'
-    | 'NOT_YOUR_TURN'
-    | 'ALREADY_ACTED'
-    | 'GAME_NOT_ACTIVE'
-    | 'PLAYER_DEAD'
-    | 'WRONG_ROLE'
-    | 'INVALID_TARGET'
-    | 'TARGET_DEAD'
-    | 'CANNOT_TARGET_SELF'
-    | 'ABILITY_USED'
-    | 'CAN_ONLY_HEAL_VICTIM'
-    | 'VOTE_NOT_FOUND'
-    | 'VOTE_NOT_ACTIVE'
-    | 'INVALID_VOTER'
-    | 'INVALID_ACTION'
-    | 'UNKNOWN_ERROR';
+// Error codes from backend (unknown codes are read as UNKNOWN_ERROR)
+export type ErrorCode = z.infer<typeof S.ErrorCodeSchema>;
 
 // Error event data (server → client)
-export interface ErrorEventData {
-    code: ErrorCode;
-    message: string;
-    action?: string;  // The action that caused the error
-}
+export type ErrorEventData = z.infer<typeof S.ErrorEventDataSchema>;
 
 // Ack event data (server → client)
-export interface AckEventData {
-    action: string;
-    success: boolean;
-    message?: string;
-}
+export type AckEventData = z.infer<typeof S.AckEventDataSchema>;
 
 // ========================
 // ACTION INTERFACES (Client → Server)
 // ========================
 
-// Start game action (host only)
-export interface StartGameActionData {
-    // Empty - just triggers game start
-}
-
-// Village vote action
-export interface VillageVoteActionData {
-    targetId: PlayerID | null;  // null = abstain
-}
-
-// Seer action
-export interface SeerActionData {
-    targetId: PlayerID;
-}
-
-// Werewolf vote action
-export interface WerewolfVoteActionData {
-    targetId: PlayerID | null;  // null = abstain
-}
-
-// Witch action
-export interface WitchActionData {
-    healTargetId?: PlayerID;    // Who to save (optional)
-    poisonTargetId?: PlayerID;  // Who to poison (optional)
-}
+export type StartGameActionData = z.infer<typeof S.StartGameActionDataSchema>;
+export type VillageVoteActionData = z.infer<typeof S.VillageVoteActionDataSchema>;
+export type SeerActionData = z.infer<typeof S.SeerActionDataSchema>;
+export type WerewolfVoteActionData = z.infer<typeof S.WerewolfVoteActionDataSchema>;
+export type WitchActionData = z.infer<typeof S.WitchActionDataSchema>;
 
 // ========================
 // TYPE ALIASES FOR EVENTS
@@ -311,6 +230,11 @@ export type DisconnectionEventType = Event<DisconnectionEvent>;
 export type ReconnectionEvent = Event<ReconnectionEventData>;
 export type InactiveEvent = Event<InactiveEventData>;
 export type HostChangeEvent = Event<HostChangeEventData>;
+export type PingEvent = Event<PingEventData>;
+export type PongEvent = Event<PongEventData>;
+export type AuthEvent = Event<AuthEventData>;
+export type ResyncEvent = Event<ResyncEventData>;
+export type SnapshotEvent = Event<SnapshotEventData>;
 
 // New game flow events
 export type TimerEvent = Event<TimerEventData>;
@@ -319,9 +243,12 @@ export type VoteEvent = Event<VoteEventData>;
 export type DayEvent = Event<DayEventData>;
 export type NightEvent = Event<NightEventData>;
 export type DeathEvent = Event<DeathEventData>;
+export type AttackBlockedEvent = Event<AttackBlockedEventData>;
+export type SheriffEvent = Event<SheriffEventData>;
 export type WinEvent = Event<WinEventData>;
 export type RoleRevealEvent = Event<RoleRevealEventData>;
 export type SeerRevealEvent = Event<SeerRevealEventData>;
+export type LoversRevealEvent = Event<LoversRevealEventData>;
 
 // Action events
 export type StartGameAction = Event<StartGameActionData>;
@@ -338,3 +265,32 @@ export type AckEvent = Event<AckEventData>;
 export type ActionCreatedEvent = Event<ActionCreatedEventData>;
 export type ActionResponseEvent = Event<ActionResponseEventData>;
 export type ActionExpiredEvent = Event<ActionExpiredEventData>;
+
+// ========================
+// TYPED EVENT MAP
+// ========================
+
+// Payload type of every server → client event, by channel then type (derived from the schema registry)
+type IncomingSchemas = typeof S.INCOMING_EVENT_SCHEMAS;
+
+export type IncomingEventMap = {
+    [C in keyof IncomingSchemas]: {
+        [T in keyof IncomingSchemas[C]]: z.infer<IncomingSchemas[C][T]>;
+    };
+};
+
+export type IncomingChannel = keyof IncomingEventMap;
+export type IncomingEventType<C extends IncomingChannel> = keyof IncomingEventMap[C] & EventType;
+export type IncomingPayload<C extends IncomingChannel, T extends IncomingEventType<C>> = IncomingEventMap[C][T];
+
+// Event types only ever sent by the client
+export type OutboundEventType =
+    | 'ping'
+    | 'auth'
+    | 'resync'
+    | 'start_game'
+    | 'village_vote'
+    | 'seer_action'
+    | 'werewolf_vote'
+    | 'witch_action'
+    | 'action_response';
@@ -1,13 +1,14 @@
-import type {RoleType} from "@/types/roles"
+import type { z } from "zod"
 import type {PlayerID} from "@/types/player"
 import type {GameSettings} from "@/types/events"
+import type { GameIDSchema, GamePhaseSchema, GameStatusSchema } from "@/schemas"
 
-export type GameID = string;
-export type GamePhase = 'start' | 'day' | 'night' | 'vote'
-export type GameStatus = 'waiting' | 'active' | 'ended'
+export type GameID = z.infer<typeof GameIDSchema>;
+export type GamePhase = z.infer<typeof GamePhaseSchema>
+export type GameStatus = z.infer<typeof GameStatusSchema>
 
 // Note: GameSettings is defined in events.ts to match backend JSON structure
-// It uses Record<RoleType, number> for proper JSON serialization
+// Its roles map is partial: roles the backend does not configure are simply absent
 
 export interface Game {
     id: GameID
@@ -17,3 +17,15 @@ export * from './events'
 
 // UI types
 export * from './ui'
+
+// Session journal types (record / replay)
+export * from './journal'
+
+// Game chronicle types
+export * from './chronicle'
+
+// Role knowledge types (seer visions, deaths)
+export * from './knowledge'
+
+// Private notebook types (notes, suspicion)
+export * from './notebook'
@@ -0,0 +1,5 @@
+import type { z } from "zod"
+import type { JournalEntrySchema, SessionJournalSchema } from "@/schemas"
+
+export type JournalEntry = z.infer<typeof JournalEntrySchema>
+export type SessionJournal = z.infer<typeof SessionJournalSchema>
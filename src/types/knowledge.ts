@@ -0,0 +1,6 @@
+import type { z } from "zod"
+import type { KnownRoleSchema, KnownRolesSchema, RoleKnowledgeSourceSchema } from "@/schemas"
+
+export type RoleKnowledgeSource = z.infer<typeof RoleKnowledgeSourceSchema>
+export type KnownRole = z.infer<typeof KnownRoleSchema>
+export type KnownRoles = z.infer<typeof KnownRolesSchema>
@@ -0,0 +1,6 @@
+import type { z } from "zod"
+import type { NotebookSchema, PlayerNoteSchema, SuspicionLevelSchema } from "@/schemas"
+
+export type SuspicionLevel = z.infer<typeof SuspicionLevelSchema>
+export type PlayerNote = z.infer<typeof PlayerNoteSchema>
+export type Notebook = z.infer<typeof NotebookSchema>
@@ -1 +1,4 @@
-export type PlayerID = string;
\ No newline at end of file
+import type { z } from 'zod'
+import type { PlayerIDSchema } from '@/schemas'
+
+export type PlayerID = z.infer<typeof PlayerIDSchema>;
@@ -1 +1,4 @@
-export type RoleType = 'villager' | 'werewolf' | 'seer' | 'witch'
\ No newline at end of file
+import type { z } from 'zod'
+import type { RoleTypeSchema } from '@/schemas'
+
+export type RoleType = z.infer<typeof RoleTypeSchema>
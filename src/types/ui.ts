@@ -1,7 +1,9 @@
 import type { ChatMessageEvent } from './events'
+import type { DeliveryStatus } from '@/composables/useWebSocket'
 
-export type MainTab = 'chat' | 'composition' | 'settings'
+export type MainTab = 'chat' | 'composition' | 'chronicle' | 'settings'
 export type ChatChannel = 'village' | 'werewolf' | 'lovers'
+export type ModalVariant = 'default' | 'danger' | 'success' | 'warning' | 'purple' | 'blue' | 'green' | 'pink'
 
 export interface ChatMessage {
   id: string
@@ -20,4 +22,5 @@ export type UIMessage = ChatMessageEvent & {
   id: string
   isSystem: boolean
   timestamp: string
+  deliveryStatus?: DeliveryStatus  // Set on local echoes of messages queued while offline
 }
\ No newline at end of file
@@ -0,0 +1,18 @@
+/**
+ * Wire codecs for the WebSocket layer
+ */
+
+import type { WireCodec } from './types'
+import { jsonCodec } from './json'
+
+export type { WireCodec, WireFrame } from './types'
+export { jsonCodec } from './json'
+export { msgpackCodec } from './msgpack'
+
+/**
+ * Pick the codec matching the subprotocol selected by the server.
+ * Servers that ignore subprotocols answer with '' and get plain JSON.
+ */
+export function selectCodec(codecs: WireCodec[], protocol: string): WireCodec {
+  return codecs.find((codec) => codec.name === protocol) ?? jsonCodec
+}
@@ -0,0 +1,14 @@
+/**
+ * JSON codec - the historical wire format, used when nothing else is negotiated
+ */
+
+import type { WireCodec } from './types'
+
+const textDecoder = new TextDecoder('utf-8', { fatal: true })
+
+export const jsonCodec: WireCodec = {
+  name: 'json',
+  binaryType: 'arraybuffer',
+  encode: (message) => JSON.stringify(message),
+  decode: (frame) => JSON.parse(typeof frame === 'string' ? frame : textDecoder.decode(frame)),
+}
@@ -0,0 +1,419 @@
+/**
+ * MessagePack codec
+ *
+ * Self-contained MessagePack encoder/decoder (https://msgpack.org/spec).
+ * Values are encoded with JSON semantics (toJSON, undefined properties dropped,
+ * non-finite numbers as nil) so a decoded frame has the same shape as its JSON
+ * equivalent and the rest of the app does not care which codec is active.
+ */
+
+import type { WireCodec } from './types'
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder('utf-8', { fatal: true })
+
+// Nesting limit: guards against cyclic structures
+const MAX_DEPTH = 100
+
+// Timestamp extension type (msgpack spec)
+const EXT_TIMESTAMP = -1
+
+const UINT32_RANGE = 0x100000000
+
+// ========================
+// ENCODER
+// ========================
+
+class Encoder {
+  private bytes = new Uint8Array(1024)
+  private view = new DataView(this.bytes.buffer)
+  private offset = 0
+
+  encode(value: unknown): Uint8Array {
+    this.offset = 0
+    this.write(value, 0)
+    return this.bytes.slice(0, this.offset)
+  }
+
+  private ensure(size: number): void {
+    if (this.offset + size <= this.bytes.length) return
+    let length = this.bytes.length * 2
+    while (length < this.offset + size) length *= 2
+    const next = new Uint8Array(length)
+    next.set(this.bytes)
+    this.bytes = next
+    this.view = new DataView(next.buffer)
+  }
+
+  private u8(value: number): void {
+    this.ensure(1)
+    this.view.setUint8(this.offset, value)
+    this.offset += 1
+  }
+
+  private u16(value: number): void {
+    this.ensure(2)
+    this.view.setUint16(this.offset, value)
+    this.offset += 2
+  }
+
+  private u32(value: number): void {
+    this.ensure(4)
+    this.view.setUint32(this.offset, value)
+    this.offset += 4
+  }
+
+  /** 64-bit integer written as two 32-bit halves (safe integers only) */
+  private i64(value: number): void {
+    const high = Math.floor(value / UINT32_RANGE)
+    this.ensure(8)
+    this.view.setInt32(this.offset, high)
+    this.view.setUint32(this.offset + 4, value - high * UINT32_RANGE)
+    this.offset += 8
+  }
+
+  private raw(data: Uint8Array): void {
+    this.ensure(data.length)
+    this.bytes.set(data, this.offset)
+    this.offset += data.length
+  }
+
+  private write(value: unknown, depth: number): void {
+    if (depth > MAX_DEPTH) {
+      throw new RangeError('MessagePack: structure too deep (cyclic?)')
+    }
+
+    if (value === null || value === undefined || typeof value === 'function' || typeof value === 'symbol') {
+      this.u8(0xc0)
+    } else if (typeof value === 'boolean') {
+      this.u8(value ? 0xc3 : 0xc2)
+    } else if (typeof value === 'number') {
+      this.writeNumber(value)
+    } else if (typeof value === 'string') {
+      this.writeString(value)
+    } else if (typeof value === 'bigint') {
+      throw new TypeError('MessagePack: BigInt values are not supported')
+    } else if (value instanceof Uint8Array || value instanceof ArrayBuffer) {
+      this.writeBinary(value instanceof ArrayBuffer ? new Uint8Array(value) : value)
+    } else if (Array.isArray(value)) {
+      this.writeArrayHeader(value.length)
+      for (const item of value) this.write(item, depth + 1)
+    } else {
+      const object = value as Record<string, unknown> & { toJSON?: () => unknown }
+      if (typeof object.toJSON === 'function') {
+        this.write(object.toJSON(), depth + 1)
+        return
+      }
+      const entries = Object.entries(object).filter(
+        ([, item]) => item !== undefined && typeof item !== 'function' && typeof item !== 'symbol'
+      )
+      this.writeMapHeader(entries.length)
+      for (const [key, item] of entries) {
+        this.writeString(key)
+        this.write(item, depth + 1)
+      }
+    }
+  }
+
+  private writeNumber(value: number): void {
+    if (!Number.isFinite(value)) {
+      this.u8(0xc0)
+    } else if (Number.isSafeInteger(value)) {
+      if (value >= 0) {
+        if (value < 0x80) {
+          this.u8(value)
+        } else if (value <= 0xff) {
+          this.u8(0xcc)
+          this.u8(value)
+        } else if (value <= 0xffff) {
+          this.u8(0xcd)
+          this.u16(value)
+        } else if (value <= 0xffffffff) {
+          this.u8(0xce)
+          this.u32(value)
+        } else {
+          this.u8(0xcf)
+          this.i64(value)
+        }
+      } else if (value >= -0x20) {
+        this.u8(value & 0xff)
+      } else if (value >= -0x80) {
+        this.u8(0xd0)
+        this.u8(value & 0xff)
+      } else if (value >= -0x8000) {
+        this.u8(0xd1)
+        this.u16(value & 0xffff)
+      } else if (value >= -0x80000000) {
+        this.u8(0xd2)
+        this.u32(value >>> 0)
+      } else {
+        this.u8(0xd3)
+        this.i64(value)
+      }
+    } else {
+      this.u8(0xcb)
+      this.ensure(8)
+      this.view.setFloat64(this.offset, value)
+      this.offset += 8
+    }
+  }
+
+  private writeString(value: string): void {
+    const data = textEncoder.encode(value)
+    const length = data.length
+    if (length < 0x20) {
+      this.u8(0xa0 | length)
+    } else if (length <= 0xff) {
+      this.u8(0xd9)
+      this.u8(length)
+    } else if (length <= 0xffff) {
+      this.u8(0xda)
+      this.u16(length)
+    } else {
+      this.u8(0xdb)
+      this.u32(length)
+    }
+    this.raw(data)
+  }
+
+  private writeBinary(data: Uint8Array): void {
+    const length = data.length
+    if (length <= 0xff) {
+      this.u8(0xc4)
+      this.u8(length)
+    } else if (length <= 0xffff) {
+      this.u8(0xc5)
+      this.u16(length)
+    } else {
+      this.u8(0xc6)
+      this.u32(length)
+    }
+    this.raw(data)
+  }
+
+  private writeArrayHeader(length: number): void {
+    if (length < 0x10) {
+      this.u8(0x90 | length)
+    } else if (length <= 0xffff) {
+      this.u8(0xdc)
+      this.u16(length)
+    } else {
+      this.u8(0xdd)
+      this.u32(length)
+    }
+  }
+
+  private writeMapHeader(length: number): void {
+    if (length < 0x10) {
+      this.u8(0x80 | length)
+    } else if (length <= 0xffff) {
+      this.u8(0xde)
+      this.u16(length)
+    } else {
+      this.u8(0xdf)
+      this.u32(length)
+    }
+  }
+}
+
+// ========================
+// DECODER
+// ========================
+
+class Decoder {
+  private readonly bytes: Uint8Array
+  private readonly view: DataView
+  private offset = 0
+
+  constructor(bytes: Uint8Array) {
+    this.bytes = bytes
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  }
+
+  decode(): unknown {
+    const value = this.read(0)
+    if (this.offset !== this.bytes.length) {
+      throw new SyntaxError(`MessagePack: ${this.bytes.length - this.offset} trailing byte(s)`)
+    }
+    return value
+  }
+
+  private need(size: number): void {
+    if (this.offset + size > this.bytes.length) {
+      throw new RangeError('MessagePack: truncated frame')
+    }
+  }
+
+  private u8(): number {
+    this.need(1)
+    return this.view.getUint8(this.offset++)
+  }
+
+  private u16(): number {
+    this.need(2)
+    const value = this.view.getUint16(this.offset)
+    this.offset += 2
+    return value
+  }
+
+  private u32(): number {
+    this.need(4)
+    const value = this.view.getUint32(this.offset)
+    this.offset += 4
+    return value
+  }
+
+  /** 64-bit integers are read as Numbers (precision lost beyond 2^53) */
+  private u64(): number {
+    return this.u32() * UINT32_RANGE + this.u32()
+  }
+
+  private i64(): number {
+    this.need(8)
+    const high = this.view.getInt32(this.offset)
+    this.offset += 4
+    return high * UINT32_RANGE + this.u32()
+  }
+
+  private take(size: number): Uint8Array {
+    this.need(size)
+    const data = this.bytes.subarray(this.offset, this.offset + size)
+    this.offset += size
+    return data
+  }
+
+  private read(depth: number): unknown {
+    if (depth > MAX_DEPTH) {
+      throw new RangeError('MessagePack: structure too deep')
+    }
+
+    const byte = this.u8()
+    if (byte <= 0x7f) return byte
+    if (byte <= 0x8f) return this.readMap(byte & 0x0f, depth)
+    if (byte <= 0x9f) return this.readArray(byte & 0x0f, depth)
+    if (byte <= 0xbf) return this.readString(byte & 0x1f)
+    if (byte >= 0xe0) return byte - 0x100
+
+    switch (byte) {
+      case 0xc0: return null
+      case 0xc2: return false
+      case 0xc3: return true
+      case 0xc4: return this.take(this.u8()).slice()
+      case 0xc5: return this.take(this.u16()).slice()
+      case 0xc6: return this.take(this.u32()).slice()
+      case 0xc7: return this.readExtension(this.u8())
+      case 0xc8: return this.readExtension(this.u16())
+      case 0xc9: return this.readExtension(this.u32())
+      case 0xca: {
+        this.need(4)
+        const value = this.view.getFloat32(this.offset)
+        this.offset += 4
+        return value
+      }
+      case 0xcb: {
+        this.need(8)
+        const value = this.view.getFloat64(this.offset)
+        this.offset += 8
+        return value
+      }
+      case 0xcc: return this.u8()
+      case 0xcd: return this.u16()
+      case 0xce: return this.u32()
+      case 0xcf: return this.u64()
+      case 0xd0: return (this.u8() << 24) >> 24
+      case 0xd1: return (this.u16() << 16) >> 16
+      case 0xd2: return this.u32() | 0
+      case 0xd3: return this.i64()
+      case 0xd4: return this.readExtension(1)
+      case 0xd5: return this.readExtension(2)
+      case 0xd6: return this.readExtension(4)
+      case 0xd7: return this.readExtension(8)
+      case 0xd8: return this.readExtension(16)
+      case 0xd9: return this.readString(this.u8())
+      case 0xda: return this.readString(this.u16())
+      case 0xdb: return this.readString(this.u32())
+      case 0xdc: return this.readArray(this.u16(), depth)
+      case 0xdd: return this.readArray(this.u32(), depth)
+      case 0xde: return this.readMap(this.u16(), depth)
+      case 0xdf: return this.readMap(this.u32(), depth)
+      default:
+        throw new SyntaxError(`MessagePack: invalid type byte 0x${byte.toString(16)}`)
+    }
+  }
+
+  private readString(length: number): string {
+    return textDecoder.decode(this.take(length))
+  }
+
+  private readArray(length: number, depth: number): unknown[] {
+    const result: unknown[] = []
+    for (let i = 0; i < length; i++) {
+      result.push(this.read(depth + 1))
+    }
+    return result
+  }
+
+  private readMap(length: number, depth: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {}
+    for (let i = 0; i < length; i++) {
+      const key = this.read(depth + 1)
+      if (typeof key !== 'string' && typeof key !== 'number') {
+        throw new SyntaxError('MessagePack: map keys must be strings or numbers')
+      }
+      // defineProperty: a '__proto__' key must stay a plain property, as with JSON.parse
+      Object.defineProperty(result, String(key), {
+        value: this.read(depth + 1),
+        enumerable: true,
+        writable: true,
+        configurable: true,
+      })
+    }
+    return result
+  }
+
+  /**
+   * Only the timestamp extension is supported. It is decoded to an ISO string,
+   * which is how the same date travels in JSON.
+   */
+  private readExtension(length: number): string {
+    this.need(1)
+    const type = this.view.getInt8(this.offset++)
+    if (type !== EXT_TIMESTAMP) {
+      throw new SyntaxError(`MessagePack: unsupported extension type ${type}`)
+    }
+
+    let seconds: number
+    let nanoseconds = 0
+    if (length === 4) {
+      seconds = this.u32()
+    } else if (length === 8) {
+      const high = this.u32()
+      nanoseconds = high >>> 2
+      seconds = (high & 0x3) * UINT32_RANGE + this.u32()
+    } else if (length === 12) {
+      nanoseconds = this.u32()
+      seconds = this.i64()
+    } else {
+      throw new SyntaxError(`MessagePack: invalid timestamp length ${length}`)
+    }
+    return new Date(seconds * 1000 + Math.floor(nanoseconds / 1e6)).toISOString()
+  }
+}
+
+// ========================
+// CODEC
+// ========================
+
+const encoder = new Encoder()
+
+export const msgpackCodec: WireCodec = {
+  name: 'msgpack',
+  binaryType: 'arraybuffer',
+  encode: (message) => encoder.encode(message),
+  decode: (frame) => {
+    if (typeof frame === 'string') {
+      throw new TypeError('MessagePack: expected a binary frame, got text')
+    }
+    return new Decoder(new Uint8Array(frame)).decode()
+  },
+}
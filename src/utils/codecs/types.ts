@@ -0,0 +1,19 @@
+/**
+ * Wire codec contract
+ *
+ * A codec turns outbound messages into WebSocket frames and frames back into
+ * messages. Its name doubles as the WebSocket subprotocol offered to the server.
+ */
+
+/** Raw frame as delivered by the browser (binaryType is always 'arraybuffer' or 'blob') */
+export type WireFrame = string | ArrayBuffer
+
+export interface WireCodec {
+  /** Subprotocol name used for negotiation */
+  name: string
+  /** binaryType to set on the socket while this codec is active */
+  binaryType: BinaryType
+  encode: (message: unknown) => string | Uint8Array
+  /** Throws on malformed frames */
+  decode: (frame: WireFrame) => unknown
+}
@@ -0,0 +1,21 @@
+import type { ErrorCode } from '@/types/events'
+
+/** Why a command did not succeed */
+export type CommandFailureReason = 'rejected' | 'timeout' | 'undelivered'
+
+/**
+ * Error raised when a command is rejected by the server, times out or never leaves the client
+ */
+export class CommandError extends Error {
+    readonly reason: CommandFailureReason
+    readonly requestId: string
+    readonly code?: ErrorCode
+
+    constructor(reason: CommandFailureReason, requestId: string, message: string, code?: ErrorCode) {
+        super(message)
+        this.name = 'CommandError'
+        this.reason = reason
+        this.requestId = requestId
+        this.code = code
+    }
+}
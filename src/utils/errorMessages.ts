@@ -1,4 +1,6 @@
 import type { ErrorCode } from '@/types/events'
+import { CommandError } from '@/utils/commandError'
+import { ACTIONS } from '@/roles'
 
 /**
  * Map of error codes to French user-friendly messages
@@ -15,6 +17,7 @@ const ERROR_MESSAGES: Record<ErrorCode, string> = {
     'CANNOT_TARGET_SELF': "Vous ne pouvez pas vous cibler vous-meme",
     'ABILITY_USED': "Vous avez deja utilise cette capacite",
     'CAN_ONLY_HEAL_VICTIM': "Vous ne pouvez sauver que la victime des loups",
+    'SAME_PROTECT_TARGET': "Vous ne pouvez pas proteger le meme joueur deux nuits de suite",
     'VOTE_NOT_FOUND': "Vote introuvable",
     'VOTE_NOT_ACTIVE': "Le vote n'est pas actif",
     'INVALID_VOTER': "Vous n'etes pas autorise a voter",
@@ -29,14 +32,30 @@ export function getErrorMessage(code: ErrorCode): string {
     return ERROR_MESSAGES[code] || ERROR_MESSAGES['UNKNOWN_ERROR']
 }
 
+/**
+ * Get a user-friendly French message for a failed command (rejected, timed out or undelivered)
+ */
+export function getCommandErrorMessage(error: unknown): string {
+    if (!(error instanceof CommandError)) return ERROR_MESSAGES['UNKNOWN_ERROR']
+    switch (error.reason) {
+        case 'rejected':
+            return getErrorMessage(error.code ?? 'UNKNOWN_ERROR')
+        case 'timeout':
+            return "Le serveur n'a pas répondu à temps"
+        case 'undelivered':
+            return "Commande non envoyée (connexion perdue)"
+    }
+}
+
 /**
  * Map of action names to French display names
+ * Role actions (and their legacy commands) come from the action registry
  */
 const ACTION_NAMES: Record<string, string> = {
-    'village_vote': 'Vote du village',
-    'werewolf_vote': 'Vote des loups',
-    'seer_action': 'Vision de la voyante',
-    'witch_action': 'Action de la sorciere',
+    ...Object.fromEntries(Object.entries(ACTIONS).flatMap(([type, action]) => [
+        [type, action.label],
+        ...(action.command ? [[action.command, action.label]] : []),
+    ])),
     'start_game': 'Lancement de la partie',
     'chat_message': 'Message de chat',
     'game_settings': 'Parametres de jeu',
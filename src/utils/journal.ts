@@ -0,0 +1,37 @@
+import { SessionJournalSchema } from '@/schemas'
+import type { SessionJournal } from '@/types/journal'
+
+/**
+ * Read a journal file; throws with a user-facing French message when it cannot be used
+ */
+export function parseJournal(text: string): SessionJournal {
+    let raw: unknown
+    try {
+        raw = JSON.parse(text)
+    } catch {
+        throw new Error("Fichier illisible : ce n'est pas du JSON")
+    }
+
+    const result = SessionJournalSchema.safeParse(raw)
+    if (!result.success) {
+        const issue = result.error.issues[0]
+        const field = issue?.path.join('.') || 'journal'
+        throw new Error(`Journal invalide (${field} : ${issue?.message ?? 'format inconnu'})`)
+    }
+    return result.data
+}
+
+/**
+ * Save a journal as a JSON file through the browser's download
+ */
+export function downloadJournal(journal: SessionJournal): void {
+    const blob = new Blob([JSON.stringify(journal, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const stamp = journal.startedAt.replace(/[:.]/g, '-')
+
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `shamus-${journal.gameId.substring(0, 8)}-${stamp}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+}
@@ -0,0 +1,42 @@
+import type { z } from 'zod'
+
+/**
+ * Read a JSON value from web storage; null when missing, unreadable or no longer valid
+ */
+export function loadStored<T>(storage: Storage, key: string, schema: z.ZodType<T>): T | null {
+    try {
+        const raw = storage.getItem(key)
+        if (raw === null) return null
+        const result = schema.safeParse(JSON.parse(raw))
+        return result.success ? result.data : null
+    } catch {
+        return null
+    }
+}
+
+/**
+ * Write a JSON value to web storage; a full or disabled storage is not an error
+ */
+export function saveStored(storage: Storage, key: string, value: unknown): void {
+    try {
+        storage.setItem(key, JSON.stringify(value))
+    } catch (e) {
+        console.warn(`[Storage] Impossible d'enregistrer ${key}:`, e)
+    }
+}
+
+/**
+ * Keys of web storage starting with a prefix; none when storage is disabled
+ */
+export function storedKeys(storage: Storage, prefix: string): string[] {
+    try {
+        const keys: string[] = []
+        for (let i = 0; i < storage.length; i++) {
+            const key = storage.key(i)
+            if (key?.startsWith(prefix)) keys.push(key)
+        }
+        return keys
+    } catch {
+        return []
+    }
+}
@@ -0,0 +1,13 @@
+import type { SuspicionLevel } from '@/types/notebook'
+
+/**
+ * Display of the suspicion levels, shared by the notebook and the target lists
+ */
+export const SUSPICION_LEVELS: Record<SuspicionLevel, { label: string; classes: string }> = {
+    trust: { label: 'Confiance', classes: 'text-green-300 border-green-600 bg-green-950/60' },
+    neutral: { label: 'Neutre', classes: 'text-gray-300 border-gray-600 bg-gray-900/60' },
+    suspect: { label: 'Suspect', classes: 'text-orange-300 border-orange-600 bg-orange-950/60' },
+    wolf: { label: 'Loup', classes: 'text-red-300 border-red-600 bg-red-950/60' },
+}
+
+export const SUSPICION_ORDER: SuspicionLevel[] = ['trust', 'neutral', 'suspect', 'wolf']